@@ -0,0 +1,130 @@
+/**
+ * export.ts
+ *
+ * デプロイ済み Worker のエクスポート API（`GET /export/:dataset`）からコード・検知ログ・通知ログを
+ * CSV / NDJSON で取得し、標準出力へそのまま流すスクリプト。
+ * 接続先は `EXPORT_API_URL`（例: `https://<worker>/api/v1`）、API キー（read 以上）は `EXPORT_API_KEY` で指定します。
+ *
+ * 使い方: `npm run export -- <codes|detection-logs|notification-logs> [--format csv|ndjson] [--since <ISO>] [--until <ISO>]`
+ */
+import { EXPORT_DATASETS, EXPORT_FORMATS } from "../src/export";
+import type { ExportDataset, ExportFormat } from "../src/export";
+
+// Node 互換の最小限の `process` 情報を表す型
+type RuntimeProcess = {
+  argv?: string[];
+  exitCode?: number;
+  stdout?: { write: (chunk: Uint8Array) => boolean };
+};
+// 環境変数のキー/値マップ（未設定は undefined）
+type RuntimeEnv = Record<string, string | undefined>;
+
+// グローバルに存在するかもしれない `process` を安全に参照するための型
+type RuntimeGlobals = {
+  process?: RuntimeProcess & { env?: RuntimeEnv };
+};
+
+const runtimeGlobals = globalThis as unknown as RuntimeGlobals;
+const runtimeEnv: RuntimeEnv = runtimeGlobals.process?.env ?? {};
+
+// コマンドライン引数を解釈した結果
+interface ExportOptions {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  since?: string;
+  until?: string;
+}
+
+/**
+ * 引数を解釈します。不正な値は例外にします。
+ */
+function parseArgs(argv: string[]): ExportOptions {
+  const args = argv.slice(2);
+  let dataset: string | undefined;
+  let format = "ndjson";
+  let since: string | undefined;
+  let until: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--format") {
+      format = args[++i] ?? "";
+    } else if (arg === "--since") {
+      since = args[++i];
+    } else if (arg === "--until") {
+      until = args[++i];
+    } else if (!arg.startsWith("--") && !dataset) {
+      dataset = arg;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!EXPORT_DATASETS.includes(dataset as ExportDataset)) {
+    throw new Error(`Dataset must be one of: ${EXPORT_DATASETS.join(", ")}`);
+  }
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new Error(`--format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+  }
+  for (const [name, value] of [["--since", since], ["--until", until]] as const) {
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      throw new Error(`Invalid ${name} value: ${value}`);
+    }
+  }
+
+  return { dataset: dataset as ExportDataset, format: format as ExportFormat, since, until };
+}
+
+/**
+ * エクスポート API の URL を組み立てます。
+ */
+function buildExportUrl(baseUrl: string, options: ExportOptions): string {
+  const url = new URL(`${baseUrl.replace(/\/+$/, "")}/export/${options.dataset}`);
+  url.searchParams.set("format", options.format);
+  if (options.since) {
+    url.searchParams.set("since", options.since);
+  }
+  if (options.until) {
+    url.searchParams.set("until", options.until);
+  }
+  return url.toString();
+}
+
+/**
+ * エントリポイント。
+ * - レスポンス本文を受信した分ずつ標準出力へ書き出す（全件をメモリに載せない）
+ * - 例外時は exitCode=1 を設定
+ */
+async function main() {
+  try {
+    const options = parseArgs(runtimeGlobals.process?.argv ?? []);
+    const baseUrl = runtimeEnv.EXPORT_API_URL;
+    const apiKey = runtimeEnv.EXPORT_API_KEY;
+    if (!baseUrl || !apiKey) {
+      throw new Error("EXPORT_API_URL and EXPORT_API_KEY must be set");
+    }
+
+    const response = await fetch(buildExportUrl(baseUrl, options), {
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Export request failed with HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      runtimeGlobals.process?.stdout?.write(value);
+    }
+  } catch (error) {
+    console.error("Failed to export:", error);
+    if (runtimeGlobals.process) {
+      runtimeGlobals.process.exitCode = 1;
+    }
+  }
+}
+
+await main();
@@ -3,11 +3,12 @@
  *
  * GitHub Actions などの汎用ランタイムから SHiFT コードの収集を行うスクリプト。
  * Cloudflare 環境に依存せず、必要な `WorkerEnv` をモックして実行します。
+ * Worker と同じソースアダプターのレジストリ（src/sources.ts）を用いるため、収集結果は Worker と一致します。
  * `--json` フラグで機械可読な JSON を出力し、未指定時は人間可読なサマリを出力します。
  */
 import type { WorkerEnv } from "../src/env";
-import type { SourceFetchContext, SourceFetchResult, SourceName } from "../src/models";
-import { sourceFetchers } from "../src/sources";
+import type { GameId, SourceFetchContext, SourceFetchResult, SourceName } from "../src/models";
+import { listEnabledAdapters, runSourceAdapter } from "../src/sources";
 
 // Node 互換の最小限の `process` 情報を表す型
 type RuntimeProcess = { argv?: string[]; exitCode?: number };
@@ -25,9 +26,11 @@ const runtimeEnv: RuntimeEnv = runtimeGlobals.process?.env ?? {};
 
 // 収集結果を出力用にまとめた型
 interface FetchOutput {
+  game: GameId; // 対象タイトル
   source: SourceName; // 収集元ソース名
   count: number; // 取得したコード件数
-  codes: SourceFetchResult["codes"]; // コード本体配列
+  codes: SourceFetchResult["codes"]; // 正規化済みコード配列
+  rejected: SourceFetchResult["rejected"]; // 形式検証で弾かれた候補
 }
 
 // 実行時に外部から注入可能な `WorkerEnv` のキー一覧
@@ -35,6 +38,8 @@ const ENV_KEYS: Array<keyof WorkerEnv> = [
   "LOG_LEVEL",
   "DISCORD_WEBHOOK_URL",
   "SOURCES_WHITELIST",
+  "GAMES_ENABLED",
+  "GAME_SOURCES",
   "SCHEDULE_OFFICIAL_MINUTES",
   "SCHEDULE_MEDIA_MINUTES",
   "SCHEDULE_COMMUNITY_MINUTES",
@@ -85,23 +90,25 @@ function createMockEnv(): WorkerEnv {
 }
 
 /**
- * すべての `sourceFetchers` を走査してコードを収集します。
- * 返り値は出力用に `source`/`count`/`codes` をまとめた配列。
+ * 監視対象タイトルの有効なソースアダプターをすべて実行してコードを収集します。
+ * URL 未設定・取得失敗のソースはサンプルコードにフォールバックします。
+ * 返り値は出力用に `game`/`source`/`count`/`codes`/`rejected` をまとめた配列。
  */
 async function fetchCodes(context: SourceFetchContext): Promise<FetchOutput[]> {
   const env = createMockEnv();
-  const entries = Object.entries(sourceFetchers) as Array<[
-    SourceName,
-    (env: WorkerEnv, context: SourceFetchContext) => Promise<SourceFetchResult>
-  ]>;
 
   const results: FetchOutput[] = [];
-  for (const [source, fetcher] of entries) {
-    const result = await fetcher(env, context);
+  for (const adapter of listEnabledAdapters(env)) {
+    const result = await runSourceAdapter(env, adapter, context, {
+      fallbackToSamples: true,
+      useDefaultUrl: true,
+    });
     results.push({
-      source,
+      game: result.game,
+      source: result.source,
       count: result.codes.length,
       codes: result.codes,
+      rejected: result.rejected,
     });
   }
   return results;
@@ -114,16 +121,20 @@ function printHumanReadable(results: FetchOutput[]): void {
   const total = results.reduce((sum, entry) => sum + entry.count, 0);
   console.log(`Fetched ${total} codes across ${results.length} sources.`);
   for (const entry of results) {
-    console.log(`\n# ${entry.source} (${entry.count})`);
+    console.log(`\n# ${entry.game}/${entry.source} (${entry.count})`);
     if (!entry.codes.length) {
       console.log("(no codes)");
       continue;
     }
     for (const code of entry.codes) {
-      const reward = code.rewardType ?? "Unknown";
-      const status = code.status ?? "Active";
       const expires = code.expiresAt ?? "Unknown";
-      console.log(`- ${code.code} | reward: ${reward} | status: ${status} | expires: ${expires}`);
+      const quantity = code.reward.quantity ? ` x${code.reward.quantity}` : "";
+      console.log(
+        `- ${code.codeText} | reward: ${code.reward.kind}${quantity} (${code.rewardType}) | status: ${code.status} | expires: ${expires}`,
+      );
+    }
+    if (entry.rejected.length) {
+      console.log(`(${entry.rejected.length} candidates rejected)`);
     }
   }
 }
@@ -0,0 +1,174 @@
+/**
+ * auth.ts
+ *
+ * API キーによる認証とスコープ（read / operator / admin）での認可。
+ * - `Authorization: Bearer <key>` を受け付け、キーは SHA-256 のハッシュのみを保存・比較する
+ * - キーは R2（`state/api-keys/`）に保存するほか、`ADMIN_API_KEY_SHA256`（ハッシュのカンマ区切り）を
+ *   admin キーとして扱う（最初のキー発行用）
+ * - スコープは read < operator < admin の順に上位が下位を包含する
+ */
+import type { Context, MiddlewareHandler } from 'hono';
+import type { WorkerEnv } from './env';
+import type { ApiKeyRecord, ApiKeyScope } from './models';
+import { getApiKeyByHash, saveApiKey } from './storage';
+import { toIsoString } from './utils';
+
+const KEY_PREFIX = 'sco_';
+const KEY_BYTES = 32;
+
+const SCOPE_RANK: Record<ApiKeyScope, number> = {
+  read: 1,
+  operator: 2,
+  admin: 3,
+};
+
+/**
+ * 指定できるスコープの一覧。
+ */
+export const API_KEY_SCOPES = Object.keys(SCOPE_RANK) as ApiKeyScope[];
+
+/**
+ * 認証済みの呼び出し元。
+ */
+export interface AuthenticatedCaller {
+  keyId: string;
+  scope: ApiKeyScope;
+}
+
+/**
+ * Hono アプリの型。`caller` は認証済みの呼び出し元（未解決なら undefined、キーなし・無効なら null）。
+ */
+export interface AppEnv {
+  Bindings: WorkerEnv;
+  Variables: {
+    caller?: AuthenticatedCaller | null;
+  };
+}
+
+// バイト列を 16 進文字列に変換
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return [...new Uint8Array(bytes)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// バイト列を base64url に変換
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// 長さに依存しない比較（タイミング差でハッシュを推測されないように）
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * API キーの SHA-256 ハッシュ（16 進）。
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return toHex(digest);
+}
+
+/**
+ * スコープが要求スコープ以上か。
+ */
+export function hasScope(granted: ApiKeyScope, required: ApiKeyScope): boolean {
+  return SCOPE_RANK[granted] >= SCOPE_RANK[required];
+}
+
+// `Authorization: Bearer <key>` からキーを取り出す
+function extractBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * キー文字列から呼び出し元を解決する（無効・失効済みなら null）。
+ */
+export async function authenticateApiKey(env: WorkerEnv, key: string): Promise<AuthenticatedCaller | null> {
+  const hash = await hashApiKey(key);
+
+  const bootstrapHashes = (env.ADMIN_API_KEY_SHA256 ?? '')
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter((value) => value.length > 0);
+  if (bootstrapHashes.some((value) => timingSafeEqual(value, hash))) {
+    return { keyId: 'bootstrap', scope: 'admin' };
+  }
+
+  const record = await getApiKeyByHash(env, hash);
+  if (!record || record.revokedAt) {
+    return null;
+  }
+  return { keyId: record.id, scope: record.scope };
+}
+
+/**
+ * 新しい API キーを発行して保存する。平文のキーは戻り値でのみ返し、保存するのはハッシュだけ。
+ */
+export async function issueApiKey(
+  env: WorkerEnv,
+  name: string,
+  scope: ApiKeyScope,
+  now: Date,
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+  const key = `${KEY_PREFIX}${toBase64Url(bytes)}`;
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    name,
+    scope,
+    hash: await hashApiKey(key),
+    keyPrefix: key.slice(0, KEY_PREFIX.length + 6),
+    createdAt: toIsoString(now),
+    revokedAt: null,
+  };
+  await saveApiKey(env, record);
+  return { key, record };
+}
+
+/**
+ * API レスポンス用にハッシュを除いたキー情報を返す。
+ */
+export function toPublicApiKey(record: ApiKeyRecord): Omit<ApiKeyRecord, 'hash'> {
+  const { hash: _hash, ...rest } = record;
+  return rest;
+}
+
+/**
+ * リクエストの呼び出し元を解決してコンテキストに保持する（同一リクエスト内では 1 回だけ認証）。
+ */
+export async function resolveCaller(c: Context<AppEnv>): Promise<AuthenticatedCaller | null> {
+  const cached = c.get('caller');
+  if (cached !== undefined) {
+    return cached;
+  }
+  const token = extractBearerToken(c.req.header('Authorization'));
+  const caller = token ? await authenticateApiKey(c.env, token) : null;
+  c.set('caller', caller);
+  return caller;
+}
+
+/**
+ * 指定スコープ以上の API キーを要求するミドルウェア。
+ * - キーなし・無効なキーは 401、スコープ不足は 403
+ */
+export function requireScope(required: ApiKeyScope): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const caller = await resolveCaller(c);
+    if (!caller) {
+      c.header('WWW-Authenticate', 'Bearer');
+      return c.json({ error: 'Unauthorized', code: 'UNAUTHORIZED' }, 401);
+    }
+    if (!hasScope(caller.scope, required)) {
+      return c.json({ error: `Requires ${required} scope`, code: 'FORBIDDEN' }, 403);
+    }
+    await next();
+  };
+}
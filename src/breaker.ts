@@ -0,0 +1,119 @@
+/**
+ * breaker.ts
+ *
+ * ソース（タイトル × ソース）ごとのサーキットブレーカー。
+ * - 連続失敗が `BREAKER_FAILURE_THRESHOLD` 回に達したら OPEN にし、
+ *   `BREAKER_COOLDOWN_MINUTES` の間はそのソースを取得しない
+ * - クールダウン明けは HALF_OPEN として 1 回だけ試行し、成功で CLOSED、失敗で再び OPEN
+ * - 失敗の応答に Retry-After があれば、回数によらずその時刻まで OPEN にして取得を延期する
+ * - 状態は R2（`state/breaker/`）に永続化し、Cron 実行をまたいで維持する
+ */
+import type { WorkerEnv } from './env';
+import type { CircuitBreakerRecord, DetectionErrorCode, GameId, SourceName } from './models';
+import { DEFAULT_GAME } from './games';
+import { getCircuitBreaker, saveCircuitBreaker } from './storage';
+import { parseNumber, toIsoString } from './utils';
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MINUTES = 30;
+
+// 未記録のソースの初期状態
+function initialRecord(source: SourceName, game: GameId): CircuitBreakerRecord {
+  return {
+    source,
+    game,
+    state: 'CLOSED',
+    consecutiveFailures: 0,
+    openedAt: null,
+    openUntil: null,
+    lastFailureAt: null,
+    lastSuccessAt: null,
+  };
+}
+
+// 環境変数から閾値とクールダウンを解決
+function resolveBreakerConfig(env: WorkerEnv): { failureThreshold: number; cooldownMs: number } {
+  const failureThreshold = Math.max(1, Math.floor(parseNumber(env.BREAKER_FAILURE_THRESHOLD, DEFAULT_FAILURE_THRESHOLD)));
+  const cooldownMinutes = Math.max(0, parseNumber(env.BREAKER_COOLDOWN_MINUTES, DEFAULT_COOLDOWN_MINUTES));
+  return { failureThreshold, cooldownMs: cooldownMinutes * 60 * 1000 };
+}
+
+/**
+ * ソースのブレーカー状態を取得する（未記録なら CLOSED）。
+ * OPEN でクールダウンを過ぎていれば HALF_OPEN として返す（保存はしない）。
+ */
+export async function loadCircuitBreaker(
+  env: WorkerEnv,
+  source: SourceName,
+  now: Date,
+  game: GameId = DEFAULT_GAME,
+): Promise<CircuitBreakerRecord> {
+  const record = (await getCircuitBreaker(env, source, game)) ?? initialRecord(source, game);
+  if (record.state === 'OPEN' && record.openUntil && Date.parse(record.openUntil) <= now.getTime()) {
+    return { ...record, state: 'HALF_OPEN' };
+  }
+  return record;
+}
+
+/**
+ * 今回の実行でソースを取得してよいか（OPEN 中は不可）。
+ */
+export function isCircuitOpen(record: CircuitBreakerRecord): boolean {
+  return record.state === 'OPEN';
+}
+
+/**
+ * 取得成功を記録し、ブレーカーを CLOSED に戻す。
+ */
+export async function recordSourceSuccess(
+  env: WorkerEnv,
+  record: CircuitBreakerRecord,
+  now: Date,
+): Promise<CircuitBreakerRecord> {
+  const updated: CircuitBreakerRecord = {
+    ...record,
+    state: 'CLOSED',
+    consecutiveFailures: 0,
+    openedAt: null,
+    openUntil: null,
+    lastSuccessAt: toIsoString(now),
+  };
+  if (JSON.stringify(updated) !== JSON.stringify(record)) {
+    await saveCircuitBreaker(env, updated);
+  }
+  return updated;
+}
+
+/**
+ * 取得失敗を記録する。閾値到達または HALF_OPEN での失敗ならブレーカーを OPEN にする。
+ * retryAfterMs（応答の Retry-After）があれば、少なくともその時間は OPEN にする。
+ */
+export async function recordSourceFailure(
+  env: WorkerEnv,
+  record: CircuitBreakerRecord,
+  errorCode: DetectionErrorCode,
+  now: Date,
+  retryAfterMs?: number,
+): Promise<CircuitBreakerRecord> {
+  const { failureThreshold, cooldownMs } = resolveBreakerConfig(env);
+  const consecutiveFailures = record.consecutiveFailures + 1;
+  const thresholdReached = record.state === 'HALF_OPEN' || consecutiveFailures >= failureThreshold;
+  const openMs = Math.max(thresholdReached ? cooldownMs : 0, retryAfterMs ?? 0);
+  const shouldOpen = thresholdReached || openMs > 0;
+  const nowIso = toIsoString(now);
+
+  const updated: CircuitBreakerRecord = {
+    ...record,
+    state: shouldOpen ? 'OPEN' : 'CLOSED',
+    consecutiveFailures,
+    openedAt: shouldOpen ? nowIso : null,
+    openUntil: shouldOpen ? toIsoString(new Date(now.getTime() + openMs)) : null,
+    lastFailureAt: nowIso,
+    lastErrorCode: errorCode,
+  };
+  await saveCircuitBreaker(env, updated);
+  if (shouldOpen) {
+    console.warn(`Circuit opened for ${record.game ?? DEFAULT_GAME}/${record.source} until ${updated.openUntil} (${consecutiveFailures} consecutive failures)`);
+  }
+  return updated;
+}
@@ -0,0 +1,74 @@
+/**
+ * cache.ts
+ *
+ * よく叩かれる一覧系エンドポイントの短命なレスポンスキャッシュ。
+ * - GET の 200 応答のみを URL（クエリ込み）単位で保持し、`RESPONSE_CACHE_SECONDS`（既定 30 秒）で失効
+ * - Worker のインスタンス（isolate）ごとのメモリに保持し、R2 の一覧読み込みを間引く
+ * - 認証が必要なルートでは認可ミドルウェアの後ろに置く（応答内容は呼び出し元に依存しないため共有してよい）
+ */
+import type { MiddlewareHandler } from 'hono';
+import type { AppEnv } from './auth';
+import { parseNumber } from './utils';
+
+const DEFAULT_CACHE_SECONDS = 30;
+const MAX_ENTRIES = 200;
+
+/**
+ * キャッシュした応答。
+ */
+interface CachedResponse {
+  body: string;
+  contentType: string;
+  expiresAt: number;
+}
+
+const entries = new Map<string, CachedResponse>();
+
+/**
+ * 応答をキャッシュするミドルウェア。ヒット時は `X-Cache: HIT`、それ以外は `X-Cache: MISS` を付与。
+ */
+export function cacheResponse(): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const ttlSeconds = parseNumber(c.env.RESPONSE_CACHE_SECONDS, DEFAULT_CACHE_SECONDS);
+    if (c.req.method !== 'GET' || ttlSeconds <= 0) {
+      await next();
+      return;
+    }
+
+    const key = c.req.url;
+    const now = Date.now();
+    const cached = entries.get(key);
+    if (cached && cached.expiresAt > now) {
+      c.header('X-Cache', 'HIT');
+      c.header('Content-Type', cached.contentType);
+      return c.body(cached.body, 200);
+    }
+    entries.delete(key);
+
+    await next();
+    c.header('X-Cache', 'MISS');
+    if (c.res.status !== 200) {
+      return;
+    }
+
+    entries.set(key, {
+      body: await c.res.clone().text(),
+      contentType: c.res.headers.get('Content-Type') ?? 'application/json',
+      expiresAt: now + ttlSeconds * 1000,
+    });
+    if (entries.size > MAX_ENTRIES) {
+      const oldest = entries.keys().next().value;
+      if (oldest !== undefined) {
+        entries.delete(oldest);
+      }
+    }
+  };
+}
+
+/**
+ * キャッシュした応答をすべて破棄する（API からコードを変更した直後に古い一覧を返さないため）。
+ * 破棄できるのは処理した isolate の分のみで、他の isolate は TTL で失効する。
+ */
+export function clearResponseCache(): void {
+  entries.clear();
+}
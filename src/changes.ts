@@ -0,0 +1,49 @@
+/**
+ * changes.ts
+ *
+ * コードの変更履歴（監査証跡）の差分計算。
+ * - 保存前後のレコードを項目ごとに比較し、変わった項目の前後の値を記録する
+ * - `metadata` は配下の項目ごとに比較し、`updatedAt`（毎回変わる）と `statusHistory`（`status` の差分で分かる）は対象外
+ */
+import type { FieldChange, ShiftCode } from './models';
+
+// 差分の対象外とする項目
+const IGNORED_FIELDS = new Set(['updatedAt', 'statusHistory', 'metadata']);
+
+// 比較用に項目を平坦化（metadata 配下は `metadata.<key>`）
+function flattenCode(code: ShiftCode | null): Map<string, unknown> {
+  const fields = new Map<string, unknown>();
+  if (!code) {
+    return fields;
+  }
+  for (const [key, value] of Object.entries(code)) {
+    if (!IGNORED_FIELDS.has(key) && value !== undefined) {
+      fields.set(key, value);
+    }
+  }
+  for (const [key, value] of Object.entries(code.metadata ?? {})) {
+    if (value !== undefined) {
+      fields.set(`metadata.${key}`, value);
+    }
+  }
+  return fields;
+}
+
+/**
+ * 保存前後のレコードの差分を求める（新規作成時は before に null を渡す）。
+ */
+export function diffCodes(before: ShiftCode | null, after: ShiftCode): FieldChange[] {
+  const previous = flattenCode(before);
+  const next = flattenCode(after);
+  const fields = [...new Set([...previous.keys(), ...next.keys()])];
+
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const beforeValue = previous.get(field) ?? null;
+    const afterValue = next.get(field) ?? null;
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+  return changes;
+}
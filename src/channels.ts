@@ -0,0 +1,427 @@
+/**
+ * channels.ts
+ *
+ * 通知チャネル（Discord / Slack / Telegram / 汎用 JSON Webhook）の定義。
+ * - チャネルごとに送信先の解決、ペイロード組み立て、リトライ方針を持つ
+ * - 文言・日付書式・色・項目順は templates.ts で送信先ごとに解決したものを使う
+ * - ダイジェストは各サービスの上限（Discord の embed 数・文字数など）に収まるよう複数リクエストに分割する
+ * - 送信処理そのものは notifications.ts が共通で担う
+ */
+import type { WorkerEnv } from './env';
+import type { NotificationDestination, NotificationDigest, ShiftCode } from './models';
+import { renderCodeMessage, renderDigestMessage, resolveTemplate } from './templates';
+import type { RenderedDigest, RenderedMessage } from './templates';
+import { toIsoString } from './utils';
+
+/**
+ * チャネルごとのリトライ方針。
+ * - maxAttempts: 試行総数
+ * - backoffBaseMs: 指数バックオフの基底ミリ秒
+ */
+export interface ChannelRetryPolicy {
+  maxAttempts: number;
+  backoffBaseMs: number;
+}
+
+/**
+ * 送信する HTTP リクエスト。
+ */
+export interface ChannelRequest {
+  url: string;
+  body: unknown;
+  codeIds?: string[];               // このリクエストに含まれるコード（ダイジェスト時）
+}
+
+/**
+ * 通知チャネル。
+ * - resolveTarget: 送信先 URL（未設定なら null）
+ * - buildRequest: コード 1 件分のリクエストを組み立て
+ * - buildDigestRequests: ダイジェスト 1 件分のリクエスト群を組み立て（上限に応じて分割）
+ */
+export interface NotificationChannel {
+  destination: NotificationDestination;
+  retry: ChannelRetryPolicy;
+  resolveTarget(env: WorkerEnv): string | null;
+  buildRequest(env: WorkerEnv, target: string, code: ShiftCode): ChannelRequest;
+  buildDigestRequests(env: WorkerEnv, target: string, digest: NotificationDigest): ChannelRequest[];
+}
+
+/**
+ * ダイジェスト分割の単位（embed / block / テキスト塊）。
+ * - weight: 上限判定に使う大きさ（文字数など）
+ */
+interface DigestUnit<T> {
+  value: T;
+  weight: number;
+  codeId?: string;
+}
+
+// Discord: 1 メッセージあたり embed 10 個・合計 6000 文字、description は 4096 文字まで
+const DISCORD_MAX_EMBEDS = 10;
+const DISCORD_MAX_TOTAL_CHARS = 6000;
+const DISCORD_MAX_DESCRIPTION = 4096;
+// Slack: 1 メッセージあたり 50 ブロック（見出しとフッターの 2 つを除いた数）、section は 3000 文字まで
+const SLACK_MAX_BODY_BLOCKS = 48;
+const SLACK_MAX_SECTION_TEXT = 3000;
+// Telegram: 1 メッセージ 4096 文字まで（見出し分の余裕を残す）
+const TELEGRAM_MAX_TEXT = 3800;
+
+// Telegram の HTML モード向けエスケープ
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// 上限を超える文字列を切り詰め
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+// 個数・重みの上限に収まるよう単位を順に詰めて分割
+function chunkUnits<T>(units: DigestUnit<T>[], maxItems: number, maxWeight: number): DigestUnit<T>[][] {
+  const chunks: DigestUnit<T>[][] = [];
+  let current: DigestUnit<T>[] = [];
+  let weight = 0;
+  for (const unit of units) {
+    if (current.length && (current.length >= maxItems || weight + unit.weight > maxWeight)) {
+      chunks.push(current);
+      current = [];
+      weight = 0;
+    }
+    current.push(unit);
+    weight += unit.weight;
+  }
+  if (current.length) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+// 分割した塊に含まれるコード ID
+function chunkCodeIds<T>(chunk: DigestUnit<T>[]): string[] {
+  return chunk.map((unit) => unit.codeId).filter((codeId): codeId is string => Boolean(codeId));
+}
+
+// 分割時にタイトルへ付ける通し番号
+function pageSuffix(index: number, total: number): string {
+  return total > 1 ? ` (${index + 1}/${total})` : '';
+}
+
+// 空文字を null として扱う
+function nonEmpty(value: string | undefined): string | null {
+  return value && value.trim().length > 0 ? value.trim() : null;
+}
+
+// Discord Webhook へ送るJSONペイロードを組み立て
+function buildDiscordPayload(message: RenderedMessage) {
+  const lines = [
+    `**${message.codeLabel}:** \`${message.codeValue}\``,
+    ...message.fields.map((field) => `**${field.label}:** ${field.value}`),
+  ];
+  if (message.notes) {
+    lines.push(message.notes);
+  }
+
+  return {
+    content: message.content,
+    embeds: [
+      {
+        title: message.title,
+        description: lines.join('\n'),
+        color: message.color,
+        timestamp: new Date().toISOString(),
+        footer: {
+          text: message.footer,
+        },
+      },
+    ],
+  };
+}
+
+// Slack Incoming Webhook へ送るJSONペイロードを組み立て
+function buildSlackPayload(message: RenderedMessage) {
+  const lines = [
+    `*${message.codeLabel}:* \`${message.codeValue}\``,
+    ...message.fields.map((field) => `*${field.label}:* ${field.value}`),
+  ];
+  if (message.notes) {
+    lines.push(message.notes);
+  }
+
+  return {
+    text: `${message.title}: ${message.codeValue}`,
+    blocks: [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: message.title },
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: lines.join('\n') },
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: message.footer }],
+      },
+    ],
+  };
+}
+
+// Telegram Bot API（sendMessage）へ送るJSONペイロードを組み立て
+function buildTelegramPayload(chatId: string, message: RenderedMessage) {
+  const lines = [
+    `<b>${escapeHtml(message.title)}</b>`,
+    `<b>${escapeHtml(message.codeLabel)}:</b> <code>${escapeHtml(message.codeValue)}</code>`,
+    ...message.fields.map((field) => `<b>${escapeHtml(field.label)}:</b> ${escapeHtml(field.value)}`),
+  ];
+  if (message.notes) {
+    lines.push(escapeHtml(message.notes));
+  }
+
+  return {
+    chat_id: chatId,
+    text: lines.join('\n'),
+    parse_mode: 'HTML',
+    disable_web_page_preview: true,
+  };
+}
+
+// 汎用 JSON Webhook へ送るペイロード（コードレコードに整形済みメッセージを添える）
+function buildGenericPayload(code: ShiftCode, message: RenderedMessage) {
+  return {
+    event: 'shift_code.notified',
+    sentAt: toIsoString(new Date()),
+    code,
+    message: {
+      title: message.title,
+      fields: message.fields,
+    },
+  };
+}
+
+// Discord: セクションの見出しを author に、コードごとに 1 embed として分割送信
+function buildDiscordDigestPayloads(digest: RenderedDigest): Array<{ body: unknown; codeIds: string[] }> {
+  const timestamp = new Date().toISOString();
+  const units: DigestUnit<Record<string, unknown>>[] = [];
+  for (const section of digest.sections) {
+    if (!section.items.length) {
+      units.push({
+        value: { author: { name: section.heading }, description: section.emptyText, color: digest.color },
+        weight: section.heading.length + section.emptyText.length,
+      });
+      continue;
+    }
+    for (const item of section.items) {
+      const lines = item.fields.map((field) => `**${field.label}:** ${field.value}`);
+      if (item.notes) {
+        lines.push(item.notes);
+      }
+      const title = item.codeValue;
+      const description = truncate(lines.join('\n'), DISCORD_MAX_DESCRIPTION);
+      units.push({
+        value: { author: { name: section.heading }, title, description, color: digest.color },
+        weight: section.heading.length + title.length + description.length,
+        codeId: item.codeId,
+      });
+    }
+  }
+
+  const footerWeight = digest.footer.length + digest.title.length + 8;
+  const chunks = chunkUnits(units, DISCORD_MAX_EMBEDS, DISCORD_MAX_TOTAL_CHARS - footerWeight);
+  return chunks.map((chunk, index) => {
+    const embeds = chunk.map((unit) => ({ ...unit.value }));
+    const last = embeds[embeds.length - 1];
+    last.footer = { text: `${digest.title}${pageSuffix(index, chunks.length)} · ${digest.footer}` };
+    last.timestamp = timestamp;
+    return {
+      body: {
+        content: index === 0 ? `${digest.content}\n**${digest.title}**` : undefined,
+        embeds,
+      },
+      codeIds: chunkCodeIds(chunk),
+    };
+  });
+}
+
+// Slack: セクション見出しとコードごとの section ブロックを 50 ブロック以内に分割
+function buildSlackDigestPayloads(digest: RenderedDigest): Array<{ body: unknown; codeIds: string[] }> {
+  const units: DigestUnit<Record<string, unknown>>[] = [];
+  for (const section of digest.sections) {
+    const heading = section.items.length ? `*${section.heading}*` : `*${section.heading}*\n${section.emptyText}`;
+    units.push({ value: { type: 'section', text: { type: 'mrkdwn', text: heading } }, weight: 1 });
+    for (const item of section.items) {
+      const lines = [
+        `*${item.codeLabel}:* \`${item.codeValue}\``,
+        ...item.fields.map((field) => `*${field.label}:* ${field.value}`),
+      ];
+      if (item.notes) {
+        lines.push(item.notes);
+      }
+      units.push({
+        value: { type: 'section', text: { type: 'mrkdwn', text: truncate(lines.join('\n'), SLACK_MAX_SECTION_TEXT) } },
+        weight: 1,
+        codeId: item.codeId,
+      });
+    }
+  }
+
+  const chunks = chunkUnits(units, SLACK_MAX_BODY_BLOCKS, Number.POSITIVE_INFINITY);
+  return chunks.map((chunk, index) => {
+    const title = `${digest.title}${pageSuffix(index, chunks.length)}`;
+    return {
+      body: {
+        text: title,
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: truncate(title, 150) } },
+          ...chunk.map((unit) => unit.value),
+          { type: 'context', elements: [{ type: 'mrkdwn', text: digest.footer }] },
+        ],
+      },
+      codeIds: chunkCodeIds(chunk),
+    };
+  });
+}
+
+// Telegram: テキストを 4096 文字以内のメッセージに分割
+function buildTelegramDigestPayloads(
+  chatId: string,
+  digest: RenderedDigest,
+): Array<{ body: unknown; codeIds: string[] }> {
+  const units: DigestUnit<string>[] = [];
+  for (const section of digest.sections) {
+    const heading = section.items.length
+      ? `<b>${escapeHtml(section.heading)}</b>`
+      : `<b>${escapeHtml(section.heading)}</b>\n${escapeHtml(section.emptyText)}`;
+    units.push({ value: heading, weight: heading.length + 2 });
+    for (const item of section.items) {
+      const lines = [
+        `<code>${escapeHtml(item.codeValue)}</code>`,
+        ...item.fields.map((field) => `${escapeHtml(field.label)}: ${escapeHtml(field.value)}`),
+      ];
+      const text = lines.join('\n');
+      units.push({ value: text, weight: text.length + 2, codeId: item.codeId });
+    }
+  }
+
+  const chunks = chunkUnits(units, Number.POSITIVE_INFINITY, TELEGRAM_MAX_TEXT);
+  return chunks.map((chunk, index) => ({
+    body: {
+      chat_id: chatId,
+      text: [
+        `<b>${escapeHtml(digest.title)}${pageSuffix(index, chunks.length)}</b>`,
+        ...chunk.map((unit) => unit.value),
+      ].join('\n\n'),
+      parse_mode: 'HTML',
+      disable_web_page_preview: true,
+    },
+    codeIds: chunkCodeIds(chunk),
+  }));
+}
+
+// 汎用 JSON Webhook: ダイジェストを 1 リクエストでそのまま送る
+function buildGenericDigestPayload(digest: NotificationDigest, rendered: RenderedDigest) {
+  return {
+    event: 'shift_code.digest',
+    sentAt: toIsoString(new Date()),
+    digestId: digest.id,
+    kind: digest.kind,
+    periodStart: digest.periodStart,
+    periodEnd: digest.periodEnd,
+    title: rendered.title,
+    sections: digest.sections.map((section, index) => ({
+      key: section.key,
+      heading: rendered.sections[index]?.heading,
+      codes: section.codes,
+    })),
+  };
+}
+
+// 送信先のテンプレートでダイジェストを組み立て
+function renderDigestFor(
+  env: WorkerEnv,
+  destination: NotificationDestination,
+  digest: NotificationDigest,
+): RenderedDigest {
+  return renderDigestMessage(digest, resolveTemplate(env, destination));
+}
+
+// 送信先のテンプレートでメッセージを組み立て
+function renderFor(env: WorkerEnv, destination: NotificationDestination, code: ShiftCode): RenderedMessage {
+  return renderCodeMessage(code, resolveTemplate(env, destination));
+}
+
+const discordChannel: NotificationChannel = {
+  destination: 'DISCORD_WEBHOOK',
+  retry: { maxAttempts: 3, backoffBaseMs: 1000 },
+  resolveTarget: (env) => nonEmpty(env.DISCORD_WEBHOOK_URL),
+  buildRequest: (env, target, code) => ({
+    url: target,
+    body: buildDiscordPayload(renderFor(env, 'DISCORD_WEBHOOK', code)),
+  }),
+  buildDigestRequests: (env, target, digest) =>
+    buildDiscordDigestPayloads(renderDigestFor(env, 'DISCORD_WEBHOOK', digest)).map((payload) => ({
+      url: target,
+      ...payload,
+    })),
+};
+
+const slackChannel: NotificationChannel = {
+  destination: 'SLACK_WEBHOOK',
+  retry: { maxAttempts: 3, backoffBaseMs: 1000 },
+  resolveTarget: (env) => nonEmpty(env.SLACK_WEBHOOK_URL),
+  buildRequest: (env, target, code) => ({
+    url: target,
+    body: buildSlackPayload(renderFor(env, 'SLACK_WEBHOOK', code)),
+  }),
+  buildDigestRequests: (env, target, digest) =>
+    buildSlackDigestPayloads(renderDigestFor(env, 'SLACK_WEBHOOK', digest)).map((payload) => ({
+      url: target,
+      ...payload,
+    })),
+};
+
+// Telegram は Bot トークンを URL に、チャット ID をペイロードに載せる
+const telegramChannel: NotificationChannel = {
+  destination: 'TELEGRAM_BOT',
+  retry: { maxAttempts: 3, backoffBaseMs: 1000 },
+  resolveTarget: (env) => {
+    const token = nonEmpty(env.TELEGRAM_BOT_TOKEN);
+    const chatId = nonEmpty(env.TELEGRAM_CHAT_ID);
+    return token && chatId ? `https://api.telegram.org/bot${token}/sendMessage` : null;
+  },
+  buildRequest: (env, target, code) => ({
+    url: target,
+    body: buildTelegramPayload(nonEmpty(env.TELEGRAM_CHAT_ID) ?? '', renderFor(env, 'TELEGRAM_BOT', code)),
+  }),
+  buildDigestRequests: (env, target, digest) =>
+    buildTelegramDigestPayloads(
+      nonEmpty(env.TELEGRAM_CHAT_ID) ?? '',
+      renderDigestFor(env, 'TELEGRAM_BOT', digest),
+    ).map((payload) => ({ url: target, ...payload })),
+};
+
+const genericChannel: NotificationChannel = {
+  destination: 'GENERIC_WEBHOOK',
+  retry: { maxAttempts: 2, backoffBaseMs: 2000 },
+  resolveTarget: (env) => nonEmpty(env.GENERIC_WEBHOOK_URL),
+  buildRequest: (env, target, code) => ({
+    url: target,
+    body: buildGenericPayload(code, renderFor(env, 'GENERIC_WEBHOOK', code)),
+  }),
+  buildDigestRequests: (env, target, digest) => [
+    {
+      url: target,
+      body: buildGenericDigestPayload(digest, renderDigestFor(env, 'GENERIC_WEBHOOK', digest)),
+      codeIds: digest.sections.flatMap((section) => section.codes.map((code) => code.id)),
+    },
+  ],
+};
+
+/**
+ * 利用可能な通知チャネルの一覧。
+ */
+export const notificationChannels: NotificationChannel[] = [
+  discordChannel,
+  slackChannel,
+  telegramChannel,
+  genericChannel,
+];
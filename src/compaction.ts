@@ -0,0 +1,71 @@
+/**
+ * compaction.ts
+ *
+ * 検知ログ・通知ログの定期的な圧縮と保持期限による削除。
+ * - `LOG_COMPACT_AFTER_DAYS`（既定 1）日を過ぎた日の 1 件ずつのログを日次の NDJSON にまとめ、元のオブジェクトは削除する
+ * - `LOG_RETENTION_DAYS`（既定 90）日を過ぎた日のログは日次ファイルごと削除する（0 なら削除しない）
+ * - 1 回の実行で処理する量は種別ごとに `LOG_COMPACT_MAX_ENTRIES`（既定 100）件・削除 30 日分までとし、
+ *   監視実行と同じ Cron の中でもサブリクエスト数の上限に収める。残りは次回以降の実行で続きから処理する
+ * - 日付は UTC で数える
+ */
+import type { WorkerEnv } from './env';
+import type { LogCompactionSummary, LogKind } from './storage';
+import { compactLogPartitions } from './storage';
+import { parseNumber, toIsoString } from './utils';
+
+const DEFAULT_COMPACT_AFTER_DAYS = 1;
+const DEFAULT_RETENTION_DAYS = 90;
+const DEFAULT_MAX_ENTRIES = 100;
+// 1 回の一覧で取得できる件数の上限に合わせる
+const MAX_ENTRIES_LIMIT = 1000;
+const MAX_DELETED_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOG_KINDS: LogKind[] = ['detection', 'notification'];
+
+/**
+ * 圧縮処理の結果サマリ。
+ */
+export interface LogCompactionResult {
+  compactedAt: string;
+  compactBefore: string;
+  deleteBefore: string | null;
+  logs: LogCompactionSummary[];
+}
+
+// now から days 日前の UTC の日付（YYYY-MM-DD）
+function daysBefore(now: Date, days: number): string {
+  return new Date(now.getTime() - days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * 検知ログ・通知ログを圧縮し、保持期限を過ぎた日を削除する。
+ */
+export async function compactLogs(env: WorkerEnv, now = new Date()): Promise<LogCompactionResult> {
+  const compactAfterDays = Math.max(0, Math.floor(parseNumber(env.LOG_COMPACT_AFTER_DAYS, DEFAULT_COMPACT_AFTER_DAYS)));
+  const retentionDays = Math.max(0, Math.floor(parseNumber(env.LOG_RETENTION_DAYS, DEFAULT_RETENTION_DAYS)));
+  const compactBefore = daysBefore(now, compactAfterDays);
+  const deleteBefore = retentionDays > 0 ? daysBefore(now, retentionDays) : null;
+  const maxEntries = Math.min(
+    MAX_ENTRIES_LIMIT,
+    Math.max(1, Math.floor(parseNumber(env.LOG_COMPACT_MAX_ENTRIES, DEFAULT_MAX_ENTRIES))),
+  );
+
+  const logs: LogCompactionSummary[] = [];
+  for (const kind of LOG_KINDS) {
+    const summary = await compactLogPartitions(env, kind, {
+      compactBefore,
+      deleteBefore,
+      maxEntries,
+      maxDeletedDays: MAX_DELETED_DAYS,
+    });
+    if (summary.compactedEntries || summary.deletedDays.length) {
+      console.log(
+        `Compacted ${summary.compactedEntries} ${kind} logs (${summary.compactedDays.length} days completed), ` +
+          `deleted ${summary.deletedDays.length} days${summary.hasMore ? ', more remaining' : ''}`,
+      );
+    }
+    logs.push(summary);
+  }
+
+  return { compactedAt: toIsoString(now), compactBefore, deleteBefore, logs };
+}
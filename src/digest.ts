@@ -0,0 +1,216 @@
+/**
+ * digest.ts
+ *
+ * 日次・週次の定期ダイジェスト（期間内に有効になったコードと期限切れになったコードのまとめ）。
+ * - `DIGEST_DAILY` / `DIGEST_WEEKLY` が true のとき、Cron 実行ごとに送信時刻を過ぎているか判定
+ * - 期間は `DIGEST_HOUR_UTC`（既定 0 時）を区切りとし、週次は `DIGEST_WEEKDAY`（既定 1=月曜）に送信
+ * - 送信済みの期間は R2（`state/digest/`）に記録し、同じ期間を二重に送らない
+ * - 全送信先への送信に失敗した期間は記録せず、次の Cron 実行で再送する
+ * - 送信済み・無効の判定はコードを読む前に行い、集計は期間の開始以降の変更履歴（`changes/time/`）で
+ *   状態が変わったコードのみを読み込む（保存済みの全コードは読まない）
+ */
+import type { WorkerEnv } from './env';
+import type { DigestPeriod, NotificationDigest, ShiftCode } from './models';
+import { dispatchDigest, hasConfiguredChannels } from './notifications';
+import { getCodeById, getDigestState, listChangesSince, saveDigestState } from './storage';
+import { clamp, parseNumber, toIsoString } from './utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DIGEST_HOUR_UTC = 0;
+const DEFAULT_DIGEST_WEEKDAY = 1;
+// 変更履歴を 1 回に読む件数（R2 の一覧の上限）
+const CHANGE_PAGE_SIZE = 1000;
+
+/**
+ * 定期ダイジェストの実行結果。
+ * - skipped: 送信しなかった理由（DISABLED / ALREADY_SENT / EMPTY）
+ */
+export interface PeriodicDigestResult {
+  period: DigestPeriod;
+  periodKey: string;
+  periodStart: string;
+  periodEnd: string;
+  activated: number;
+  expired: number;
+  sent: number;
+  skipped?: 'DISABLED' | 'ALREADY_SENT' | 'EMPTY';
+}
+
+/**
+ * 集計対象の期間。
+ */
+interface DigestWindow {
+  key: string;
+  start: Date;
+  end: Date;
+}
+
+// 周期ごとの有効/無効
+function isPeriodEnabled(env: WorkerEnv, period: DigestPeriod): boolean {
+  return (period === 'DAILY' ? env.DIGEST_DAILY : env.DIGEST_WEEKLY) === 'true';
+}
+
+// 直近に締まった期間を求める（日次は毎日、週次は指定曜日の送信時刻で締める）
+function resolveDigestWindow(env: WorkerEnv, period: DigestPeriod, now: Date): DigestWindow {
+  const hour = clamp(Math.floor(parseNumber(env.DIGEST_HOUR_UTC, DEFAULT_DIGEST_HOUR_UTC)), 0, 23);
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hour));
+  if (end.getTime() > now.getTime()) {
+    end.setTime(end.getTime() - DAY_MS);
+  }
+  if (period === 'WEEKLY') {
+    const weekday = clamp(Math.floor(parseNumber(env.DIGEST_WEEKDAY, DEFAULT_DIGEST_WEEKDAY)), 0, 6);
+    const offset = (end.getUTCDay() - weekday + 7) % 7;
+    end.setTime(end.getTime() - offset * DAY_MS);
+  }
+  const lengthMs = (period === 'DAILY' ? 1 : 7) * DAY_MS;
+  return {
+    key: toIsoString(end).slice(0, 10),
+    start: new Date(end.getTime() - lengthMs),
+    end,
+  };
+}
+
+// 有効になった時刻（Active への遷移、または Active で作成された場合は作成時刻）
+function resolveActivatedAt(code: ShiftCode): string | null {
+  const history = code.statusHistory ?? [];
+  const transition = [...history].reverse().find((entry) => entry.to === 'Active');
+  if (transition) {
+    return transition.at;
+  }
+  const initialStatus = history[0]?.from ?? code.status;
+  return initialStatus === 'Active' ? code.createdAt : null;
+}
+
+// 期限切れになった時刻（Expired への遷移のみ）
+function resolveExpiredAt(code: ShiftCode): string | null {
+  const transition = [...(code.statusHistory ?? [])].reverse().find((entry) => entry.to === 'Expired');
+  return transition?.at ?? null;
+}
+
+// 時刻が期間内（start < at <= end）か
+function isWithin(value: string | null, window: DigestWindow): boolean {
+  if (!value) {
+    return false;
+  }
+  const timestamp = Date.parse(value);
+  return !Number.isNaN(timestamp) && timestamp > window.start.getTime() && timestamp <= window.end.getTime();
+}
+
+// 期間の開始以降に状態が変わった（作成を含む）コードを読み込む（論理削除済み・フォールバック由来は除く）
+// 状態遷移の時刻は変更履歴の記録時刻以前なので、期間内の遷移はすべて開始以降の変更履歴に含まれる
+async function loadStatusChangedCodes(env: WorkerEnv, since: Date): Promise<ShiftCode[]> {
+  const codeIds = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const page = await listChangesSince(env, toIsoString(since), CHANGE_PAGE_SIZE, cursor);
+    for (const change of page.changes) {
+      if (change.changes.some((field) => field.field === 'status')) {
+        codeIds.add(change.codeId);
+      }
+    }
+    cursor = page.cursor;
+  } while (cursor);
+
+  const codes = await Promise.all([...codeIds].map((id) => getCodeById(env, id)));
+  return codes.filter((code): code is ShiftCode => Boolean(code) && !code?.deletedAt && !code?.metadata?.isFallback);
+}
+
+/**
+ * 期間内に有効化・期限切れとなったコードからダイジェストを組み立てる（フォールバック由来は除外）。
+ */
+async function buildPeriodicDigest(
+  env: WorkerEnv,
+  period: DigestPeriod,
+  window: DigestWindow,
+): Promise<NotificationDigest> {
+  const codes = await loadStatusChangedCodes(env, window.start);
+  const byFirstSeen = (a: ShiftCode, b: ShiftCode) => Date.parse(a.firstSeenAt) - Date.parse(b.firstSeenAt);
+
+  return {
+    id: crypto.randomUUID(),
+    kind: period,
+    periodStart: toIsoString(window.start),
+    periodEnd: toIsoString(window.end),
+    sections: [
+      {
+        key: 'activated',
+        codes: codes.filter((code) => isWithin(resolveActivatedAt(code), window)).sort(byFirstSeen),
+      },
+      {
+        key: 'expired',
+        codes: codes.filter((code) => isWithin(resolveExpiredAt(code), window)).sort(byFirstSeen),
+      },
+    ],
+  };
+}
+
+/**
+ * 定期ダイジェストを送信する。
+ * - force=false のときは有効設定と送信済み期間を確認し、未送信の締まった期間のみ送る
+ * - force=true は設定・送信済み記録を無視して直近の期間を送る（送信済み記録は更新する）
+ * - 送信済みとして記録するのは 1 つ以上の送信先に届いた場合と、DRY_RUN・送信先未設定・対象コードなしで
+ *   再送しても結果が変わらない場合のみ（全送信先で失敗した期間は次回に再送する）
+ */
+export async function sendPeriodicDigest(
+  env: WorkerEnv,
+  period: DigestPeriod,
+  now = new Date(),
+  options: { force?: boolean } = {},
+): Promise<PeriodicDigestResult> {
+  const window = resolveDigestWindow(env, period, now);
+  const base: PeriodicDigestResult = {
+    period,
+    periodKey: window.key,
+    periodStart: toIsoString(window.start),
+    periodEnd: toIsoString(window.end),
+    activated: 0,
+    expired: 0,
+    sent: 0,
+  };
+
+  // 無効・送信済みならコードを読まずに返す
+  if (!options.force) {
+    if (!isPeriodEnabled(env, period)) {
+      return { ...base, skipped: 'DISABLED' };
+    }
+    const state = await getDigestState(env, period);
+    if (state?.lastPeriodKey === window.key) {
+      return { ...base, skipped: 'ALREADY_SENT' };
+    }
+  }
+
+  const digest = await buildPeriodicDigest(env, period, window);
+  const [activated, expired] = digest.sections.map((section) => section.codes.length);
+  const result: PeriodicDigestResult = { ...base, activated, expired };
+
+  const markSent = () =>
+    saveDigestState(env, { period, lastPeriodKey: window.key, sentAt: toIsoString(new Date()) });
+
+  if (!activated && !expired) {
+    await markSent();
+    return { ...result, skipped: 'EMPTY' };
+  }
+
+  const dispatched = await dispatchDigest(env, digest);
+  console.log(`${period} digest for ${window.key}: activated=${activated}, expired=${expired}, sent=${dispatched.sent}`);
+  if (dispatched.sent > 0 || !dispatched.attempted || env.MODE !== 'PROD' || !hasConfiguredChannels(env)) {
+    await markSent();
+  } else {
+    console.warn(`${period} digest for ${window.key} failed on every channel; will retry on the next run`);
+  }
+  return { ...result, sent: dispatched.sent };
+}
+
+/**
+ * Cron から呼ばれ、有効な周期の定期ダイジェストを必要に応じて送信する。
+ */
+export async function runScheduledDigests(env: WorkerEnv, now = new Date()): Promise<PeriodicDigestResult[]> {
+  const results: PeriodicDigestResult[] = [];
+  for (const period of ['DAILY', 'WEEKLY'] as DigestPeriod[]) {
+    if (!isPeriodEnabled(env, period)) {
+      continue;
+    }
+    results.push(await sendPeriodicDigest(env, period, now));
+  }
+  return results;
+}
@@ -23,6 +23,52 @@ export interface WorkerEnv {
   LOG_LEVEL?: 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR';
   /** Discord Webhook の送信先URL */
   DISCORD_WEBHOOK_URL?: string;
+  /** Slack Incoming Webhook の送信先URL */
+  SLACK_WEBHOOK_URL?: string;
+  /** Telegram Bot API のトークン */
+  TELEGRAM_BOT_TOKEN?: string;
+  /** Telegram の送信先チャットID */
+  TELEGRAM_CHAT_ID?: string;
+  /** 汎用 JSON Webhook の送信先URL */
+  GENERIC_WEBHOOK_URL?: string;
+  /** 通知文面のテンプレート上書き（送信先ごとのロケール・タイムゾーン等、JSON文字列） */
+  NOTIFICATION_TEMPLATES?: string;
+  /** 1 回の実行分の通知をダイジェスト 1 通にまとめるか（true/false） */
+  NOTIFICATION_DIGEST?: string;
+  /** 日次ダイジェストを送信するか（true/false） */
+  DIGEST_DAILY?: string;
+  /** 週次ダイジェストを送信するか（true/false） */
+  DIGEST_WEEKLY?: string;
+  /** 定期ダイジェストの送信時刻（UTC の時、0〜23） */
+  DIGEST_HOUR_UTC?: string;
+  /** 週次ダイジェストの送信曜日（0=日曜〜6=土曜） */
+  DIGEST_WEEKDAY?: string;
+  /** 最初の admin キーの SHA-256 ハッシュ（16進、カンマ区切りで複数可） */
+  ADMIN_API_KEY_SHA256?: string;
+  /** CORS を許可するオリジン（カンマ区切り、未設定時は公開エンドポイントのみ全オリジン許可） */
+  CORS_ALLOWED_ORIGINS?: string;
+  /** 公開ルート（/codes 等）の 1 分あたりリクエスト上限（クライアントごと、0 で無制限） */
+  RATE_LIMIT_PUBLIC_PER_MINUTE?: string;
+  /** read スコープのルートの 1 分あたりリクエスト上限 */
+  RATE_LIMIT_READ_PER_MINUTE?: string;
+  /** operator スコープのルートの 1 分あたりリクエスト上限 */
+  RATE_LIMIT_OPERATOR_PER_MINUTE?: string;
+  /** admin スコープのルートの 1 分あたりリクエスト上限 */
+  RATE_LIMIT_ADMIN_PER_MINUTE?: string;
+  /** コード投稿（POST /submissions）の 1 分あたりリクエスト上限 */
+  RATE_LIMIT_SUBMISSION_PER_MINUTE?: string;
+  /** 審査待ちの投稿の上限件数（超えた投稿は受け付けない） */
+  SUBMISSION_QUEUE_LIMIT?: string;
+  /** 同じ接続元（IP）からの審査待ちの投稿の上限件数（0 で無制限） */
+  SUBMISSION_PENDING_PER_CLIENT?: string;
+  /** 一覧系レスポンスのキャッシュ秒数（0 で無効） */
+  RESPONSE_CACHE_SECONDS?: string;
+  /** 監視するタイトル（BL4 / BL3 / TTWL / BL2 / BLTPS、JSON 配列かカンマ区切り。未設定は BL4 のみ） */
+  GAMES_ENABLED?: string;
+  /** タイトルごとのソース取得先 URL（JSON 文字列。例: {"BL3":{"MEDIA_TRUSTED":"https://..."}}） */
+  GAME_SOURCES?: string;
+  /** 全体の送信先へ通知するタイトル（JSON 配列かカンマ区切り。未設定は全タイトル） */
+  NOTIFICATION_GAMES?: string;
   /** 有効なソースのみを許可するホワイトリスト(JSON文字列) */
   SOURCES_WHITELIST?: string;
   /** 公式ソースのポーリング間隔（分） */
@@ -39,6 +85,18 @@ export interface WorkerEnv {
   RETRY_BASE_MS?: string;
   /** リトライ時のジッター割合（%） */
   RETRY_JITTER_PCT?: string;
+  /** サーキットブレーカーを開く連続失敗回数 */
+  BREAKER_FAILURE_THRESHOLD?: string;
+  /** サーキットブレーカーのクールダウン（分） */
+  BREAKER_COOLDOWN_MINUTES?: string;
+  /** 監視実行の排他リースの有効期限（秒）。異常終了した実行のリースはこの時間で失効する */
+  RUN_LEASE_SECONDS?: string;
+  /** 検知・通知ログを日次ファイルにまとめるまでの日数（UTC の日付で数え、既定 1。0 なら前日分から） */
+  LOG_COMPACT_AFTER_DAYS?: string;
+  /** 検知・通知ログの保持日数（既定 90。0 なら削除しない） */
+  LOG_RETENTION_DAYS?: string;
+  /** 1 回の圧縮で日次ファイルに取り込むログの上限件数（種別ごと、既定 100、最大 1000） */
+  LOG_COMPACT_MAX_ENTRIES?: string;
   /** 公式サイトフィードのURL */
   SOURCE_OFFICIAL_SITE_URL?: string;
   /** X(Twitter)フィードのURL（API連携かスクレイピングを想定） */
@@ -49,6 +107,10 @@ export interface WorkerEnv {
   SOURCE_COMMUNITY_AUX_URL?: string;
   /** グローバルなジッター割合（%）。必要に応じて追加の揺らぎに利用 */
   JITTER_PCT?: string;
+  /** Hold→Active に昇格させる確度の閾値（0〜1） */
+  TRUST_PROMOTE_THRESHOLD?: string;
+  /** 低信頼ソースとみなす信頼度の閾値（0〜1） */
+  TRUST_LOW_THRESHOLD?: string;
   /** SHiFTコードや各種ログを格納する Cloudflare R2 バケット */
   R2: R2Bucket;
   /** 旧ストレージからの移行用に残したKV（読み取り専用） */
@@ -0,0 +1,226 @@
+/**
+ * export.ts
+ *
+ * コード・検知ログ・通知ログの一括エクスポート（CSV / NDJSON）。
+ * - R2 の一覧をページ単位で読み出しながら書き出し、全件をメモリに載せない
+ * - 期間指定はコード・通知ログが `createdAt`、検知ログが `fetchedAt` に対して行う（両端を含む）
+ * - 出力順は、コードは R2 のキー順（時刻順ではない）、ログは時刻順（期間に掛からない日は読まない）
+ * - CSV は表計算ソフトで開いたときに数式として評価されないよう、`=` `+` `-` `@` タブ・CR で始まる文字列の先頭に `'` を付ける
+ */
+import type { WorkerEnv } from './env';
+import type { DetectionLog, NotificationLog, ShiftCode } from './models';
+import { iterateCodes, iterateDetectionLogs, iterateNotificationLogs } from './storage';
+
+/**
+ * エクスポート対象のデータセット。
+ */
+export type ExportDataset = 'codes' | 'detection-logs' | 'notification-logs';
+
+/**
+ * 出力形式。
+ */
+export type ExportFormat = 'csv' | 'ndjson';
+
+export const EXPORT_DATASETS: ExportDataset[] = ['codes', 'detection-logs', 'notification-logs'];
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson'];
+
+/**
+ * 期間指定（ISO 日時、未指定側は無制限）。
+ */
+export interface ExportRange {
+  since?: string;
+  until?: string;
+}
+
+/**
+ * CSV の列定義（見出しと値の取り出し方）。
+ */
+interface CsvColumn<T> {
+  header: string;
+  value: (record: T) => string | number | boolean | null | undefined;
+}
+
+/**
+ * データセットごとの読み出し方・期間判定に使う日時・CSV の列。
+ */
+interface DatasetDefinition<T> {
+  iterate: (env: WorkerEnv, range: ExportRange) => AsyncGenerator<T[]>;
+  timestamp: (record: T) => string;
+  columns: CsvColumn<T>[];
+}
+
+const CODE_DATASET: DatasetDefinition<ShiftCode> = {
+  iterate: iterateCodes,
+  timestamp: (code) => code.createdAt,
+  columns: [
+    { header: 'id', value: (code) => code.id },
+    { header: 'title', value: (code) => code.title },
+    { header: 'codeText', value: (code) => code.codeText },
+    { header: 'normalizedCodeText', value: (code) => code.normalizedCodeText },
+    { header: 'rewardType', value: (code) => code.rewardType },
+    { header: 'rewardKind', value: (code) => code.reward.kind },
+    { header: 'rewardQuantity', value: (code) => code.reward.quantity },
+    { header: 'platforms', value: (code) => code.platforms?.join('|') },
+    { header: 'status', value: (code) => code.status },
+    { header: 'expiresAt', value: (code) => code.expiresAt },
+    { header: 'firstSeenAt', value: (code) => code.firstSeenAt },
+    { header: 'sources', value: (code) => code.sources.join('|') },
+    { header: 'confidence', value: (code) => code.confidence },
+    { header: 'hash', value: (code) => code.hash },
+    { header: 'createdAt', value: (code) => code.createdAt },
+    { header: 'updatedAt', value: (code) => code.updatedAt },
+    { header: 'deletedAt', value: (code) => code.deletedAt },
+    { header: 'url', value: (code) => code.metadata?.url },
+    { header: 'discoveredBy', value: (code) => code.metadata?.discoveredBy },
+    { header: 'notifiedAt', value: (code) => code.metadata?.notifiedAt },
+    { header: 'isFallback', value: (code) => code.metadata?.isFallback },
+    { header: 'lowTrust', value: (code) => code.metadata?.lowTrust },
+  ],
+};
+
+const DETECTION_LOG_DATASET: DatasetDefinition<DetectionLog> = {
+  iterate: iterateDetectionLogs,
+  timestamp: (log) => log.fetchedAt,
+  columns: [
+    { header: 'id', value: (log) => log.id },
+    { header: 'source', value: (log) => log.source },
+    { header: 'fetchedAt', value: (log) => log.fetchedAt },
+    { header: 'parseResult', value: (log) => log.parseResult },
+    { header: 'runId', value: (log) => log.runId },
+    { header: 'codeId', value: (log) => log.codeId },
+    { header: 'errorCode', value: (log) => log.errorCode },
+    { header: 'notes', value: (log) => log.notes },
+  ],
+};
+
+const NOTIFICATION_LOG_DATASET: DatasetDefinition<NotificationLog> = {
+  iterate: iterateNotificationLogs,
+  timestamp: (log) => log.createdAt,
+  columns: [
+    { header: 'id', value: (log) => log.id },
+    { header: 'codeId', value: (log) => log.codeId },
+    { header: 'status', value: (log) => log.status },
+    { header: 'createdAt', value: (log) => log.createdAt },
+    { header: 'destination', value: (log) => log.destination },
+    { header: 'digestId', value: (log) => log.digestId },
+    { header: 'subscriberId', value: (log) => log.subscriberId },
+    { header: 'responseStatus', value: (log) => log.responseStatus },
+    { header: 'error', value: (log) => log.error },
+  ],
+};
+
+/**
+ * データセットごとのレコードの型。
+ */
+interface DatasetRecords {
+  codes: ShiftCode;
+  'detection-logs': DetectionLog;
+  'notification-logs': NotificationLog;
+}
+
+// データセット名から定義を引く
+const DATASETS: { [K in ExportDataset]: DatasetDefinition<DatasetRecords[K]> } = {
+  codes: CODE_DATASET,
+  'detection-logs': DETECTION_LOG_DATASET,
+  'notification-logs': NOTIFICATION_LOG_DATASET,
+};
+
+/**
+ * 出力形式ごとの Content-Type。
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// 表計算ソフトが数式として扱う先頭文字
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// CSV のフィールドをエスケープ（RFC 4180: 区切り・引用符・改行を含む値を引用符で囲む）
+// 文字列が数式の先頭文字で始まる場合は `'` を前置して無害化する（数値はそのまま）
+function escapeCsvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'string' && CSV_FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(fields: Array<string | number | boolean | null | undefined>): string {
+  return `${fields.map(escapeCsvField).join(',')}\r\n`;
+}
+
+// 期間内か（日時を解釈できないレコードは期間指定時のみ除外）
+function isWithinRange(timestamp: string, sinceMs: number | null, untilMs: number | null): boolean {
+  if (sinceMs === null && untilMs === null) {
+    return true;
+  }
+  const time = Date.parse(timestamp);
+  if (Number.isNaN(time)) {
+    return false;
+  }
+  return (sinceMs === null || time >= sinceMs) && (untilMs === null || time <= untilMs);
+}
+
+/**
+ * エクスポート内容をページごとの文字列片として生成する（CSV は先頭に見出し行）。
+ */
+export async function* generateExportChunks<K extends ExportDataset>(
+  env: WorkerEnv,
+  dataset: K,
+  format: ExportFormat,
+  range: ExportRange = {},
+): AsyncGenerator<string> {
+  const definition: DatasetDefinition<DatasetRecords[K]> = DATASETS[dataset];
+  const sinceMs = range.since ? Date.parse(range.since) : null;
+  const untilMs = range.until ? Date.parse(range.until) : null;
+
+  if (format === 'csv') {
+    yield toCsvRow(definition.columns.map((column) => column.header));
+  }
+
+  for await (const page of definition.iterate(env, range)) {
+    const lines = page
+      .filter((record) => isWithinRange(definition.timestamp(record), sinceMs, untilMs))
+      .map((record) =>
+        format === 'csv'
+          ? toCsvRow(definition.columns.map((column) => column.value(record)))
+          : `${JSON.stringify(record)}\n`,
+      );
+    if (lines.length) {
+      yield lines.join('');
+    }
+  }
+}
+
+/**
+ * エクスポート内容をレスポンス本文として流す `ReadableStream` を作る。
+ * 読み出し側が消費した分だけ次のページを R2 から取得する。
+ */
+export function createExportStream(
+  env: WorkerEnv,
+  dataset: ExportDataset,
+  format: ExportFormat,
+  range: ExportRange = {},
+): ReadableStream<Uint8Array> {
+  const chunks = generateExportChunks(env, dataset, format, range);
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await chunks.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(next.value));
+      } catch (error) {
+        console.error('Export stream failed', { dataset, error });
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,324 @@
+/**
+ * feeds.ts
+ *
+ * 保存済みコードを RSS 2.0 / Atom / JSON Feed 1.1、および有効期限を iCalendar として出力する。
+ * - 項目 ID はコードの `id`（初回保存時に採番され、メタデータのマージでは変わらない）から作る
+ * - 公開日時は初出（firstSeenAt）、更新日時は最後の状態遷移の時刻とし、ソース統合などでは変えない
+ * - 表示項目と文言は通知テンプレート（`NOTIFICATION_TEMPLATES.default`）の設定に従う
+ * - iCalendar の UID もコードの `id` から作り、カレンダー側で重複せず更新されるようにする
+ * - iCalendar の SEQUENCE は作成から最終更新（updatedAt）までの秒数とし、期限の変更などで必ず増える。DTSTAMP は生成時刻
+ */
+import type { ShiftCode } from './models';
+import { renderCodeMessage, renderReward } from './templates';
+import type { NotificationTemplate, RenderedMessage } from './templates';
+
+const FEED_TITLE = 'Borderlands SHiFT codes';
+const FEED_DESCRIPTION = 'SHiFT codes discovered by the Borderlands SHiFT monitor';
+const ICS_PRODUCT_ID = '-//ShiftCodeObserver//Borderlands SHiFT codes//EN';
+const ICS_UID_DOMAIN = 'shift-code-monitor';
+
+/**
+ * フィード生成時の共通情報。
+ * - selfUrl: フィード自身の URL
+ * - baseUrl: API のベース URL（`/codes/:id` へのリンクに使う）
+ */
+export interface FeedContext {
+  selfUrl: string;
+  baseUrl: string;
+  template: NotificationTemplate;
+}
+
+/**
+ * フィードの 1 項目（形式に依存しない中間表現）。
+ */
+interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  html: string;
+  publishedAt: string;
+  updatedAt: string;
+  code: ShiftCode;
+}
+
+// XML 用エスケープ
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// 安定した項目 ID（コード ID 由来）
+function itemId(code: ShiftCode): string {
+  return `urn:uuid:${code.id}`;
+}
+
+// 更新日時: 最後の状態遷移、なければ初出
+function itemUpdatedAt(code: ShiftCode): string {
+  const history = code.statusHistory ?? [];
+  return history.length ? history[history.length - 1].at : code.firstSeenAt;
+}
+
+function toFeedItem(code: ShiftCode, context: FeedContext): FeedItem {
+  const message: RenderedMessage = renderCodeMessage(code, context.template);
+  const lines = [`${message.codeLabel}: ${message.codeValue}`, ...message.fields.map((field) => `${field.label}: ${field.value}`)];
+  if (message.notes) {
+    lines.push(message.notes);
+  }
+  const html = [
+    `<p><strong>${escapeXml(message.codeLabel)}:</strong> <code>${escapeXml(message.codeValue)}</code></p>`,
+    '<ul>',
+    ...message.fields.map((field) => `<li><strong>${escapeXml(field.label)}:</strong> ${escapeXml(field.value)}</li>`),
+    '</ul>',
+    ...(message.notes ? [`<p>${escapeXml(message.notes)}</p>`] : []),
+  ].join('');
+
+  const reward = renderReward(code, context.template);
+  return {
+    id: itemId(code),
+    url: code.metadata?.url ?? `${context.baseUrl}/codes/${code.id}`,
+    title: reward ? `${code.codeText} — ${reward}` : code.codeText,
+    summary: lines.join('\n'),
+    html,
+    publishedAt: code.firstSeenAt,
+    updatedAt: itemUpdatedAt(code),
+    code,
+  };
+}
+
+// 初出の新しい順に並べた項目
+function toFeedItems(codes: ShiftCode[], context: FeedContext): FeedItem[] {
+  return [...codes]
+    .sort((a, b) => Date.parse(b.firstSeenAt) - Date.parse(a.firstSeenAt))
+    .map((code) => toFeedItem(code, context));
+}
+
+// フィード全体の更新日時（項目がなければ現在時刻）
+function feedUpdatedAt(items: FeedItem[]): string {
+  const latest = items.reduce((max, item) => Math.max(max, Date.parse(item.updatedAt) || 0), 0);
+  return new Date(latest || Date.now()).toISOString();
+}
+
+/**
+ * RSS 2.0 を生成する。
+ */
+export function buildRssFeed(codes: ShiftCode[], context: FeedContext): string {
+  const items = toFeedItems(codes, context);
+  const entries = items.map((item) =>
+    [
+      '<item>',
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link>${escapeXml(item.url)}</link>`,
+      `<guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `<pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>`,
+      `<description>${escapeXml(item.html)}</description>`,
+      ...item.code.sources.map((source) => `<category>${escapeXml(source)}</category>`),
+      '</item>',
+    ].join(''),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '<channel>',
+    `<title>${escapeXml(FEED_TITLE)}</title>`,
+    `<link>${escapeXml(`${context.baseUrl}/codes`)}</link>`,
+    `<description>${escapeXml(FEED_DESCRIPTION)}</description>`,
+    `<atom:link href="${escapeXml(context.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    `<lastBuildDate>${new Date(feedUpdatedAt(items)).toUTCString()}</lastBuildDate>`,
+    ...entries,
+    '</channel>',
+    '</rss>',
+  ].join('\n');
+}
+
+/**
+ * Atom 1.0 を生成する。
+ */
+export function buildAtomFeed(codes: ShiftCode[], context: FeedContext): string {
+  const items = toFeedItems(codes, context);
+  const entries = items.map((item) =>
+    [
+      '<entry>',
+      `<id>${escapeXml(item.id)}</id>`,
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link href="${escapeXml(item.url)}"/>`,
+      `<published>${item.publishedAt}</published>`,
+      `<updated>${item.updatedAt}</updated>`,
+      `<summary>${escapeXml(item.summary)}</summary>`,
+      `<content type="html">${escapeXml(item.html)}</content>`,
+      ...item.code.sources.map((source) => `<category term="${escapeXml(source)}"/>`),
+      '</entry>',
+    ].join(''),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<id>${escapeXml(`${context.baseUrl}/codes.atom`)}</id>`,
+    `<title>${escapeXml(FEED_TITLE)}</title>`,
+    `<subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>`,
+    `<link href="${escapeXml(context.selfUrl)}" rel="self"/>`,
+    `<link href="${escapeXml(`${context.baseUrl}/codes`)}"/>`,
+    `<updated>${feedUpdatedAt(items)}</updated>`,
+    `<author><name>${escapeXml(FEED_TITLE)}</name></author>`,
+    ...entries,
+    '</feed>',
+  ].join('\n');
+}
+
+/**
+ * JSON Feed 1.1 を生成する。コードの構造化データは拡張 `_shift_code` に載せる。
+ */
+export function buildJsonFeed(codes: ShiftCode[], context: FeedContext) {
+  const items = toFeedItems(codes, context);
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: FEED_TITLE,
+    description: FEED_DESCRIPTION,
+    home_page_url: `${context.baseUrl}/codes`,
+    feed_url: context.selfUrl,
+    items: items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      content_text: item.summary,
+      content_html: item.html,
+      date_published: item.publishedAt,
+      date_modified: item.updatedAt,
+      tags: item.code.sources,
+      _shift_code: {
+        game: item.code.title,
+        code: item.code.codeText,
+        reward: item.code.rewardType || null,
+        rewardKind: item.code.reward.kind,
+        rewardQuantity: item.code.reward.quantity,
+        platforms: item.code.platforms ?? null,
+        expiresAt: item.code.expiresAt,
+        status: item.code.status,
+        sources: item.code.sources,
+        url: item.code.metadata?.url ?? null,
+      },
+    })),
+  };
+}
+
+/**
+ * iCalendar 生成時のオプション。
+ * - allDay: 期限日の終日予定として出力（既定は期限時刻の予定 + 1 日前の通知）
+ */
+export interface CalendarOptions {
+  allDay: boolean;
+}
+
+// iCalendar の TEXT 値エスケープ
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// ISO 日時を iCalendar の UTC 日時（YYYYMMDDTHHMMSSZ）に変換
+function toIcsDateTime(value: string): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// ISO 日時を iCalendar の日付（YYYYMMDD、UTC 基準）に変換
+function toIcsDate(value: string): string {
+  return new Date(value).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+// 75 オクテットを超える行を折り返す（RFC 5545 3.1）
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length ? 74 : 75;
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// 作成から最終更新までの秒数（更新のたびに増えるため SEQUENCE に使う）
+function calendarSequence(code: ShiftCode): number {
+  const elapsedMs = Date.parse(code.updatedAt) - Date.parse(code.createdAt);
+  return Number.isNaN(elapsedMs) ? 0 : Math.max(0, Math.floor(elapsedMs / 1000));
+}
+
+function toCalendarEvent(code: ShiftCode, context: FeedContext, options: CalendarOptions, stamp: string): string[] {
+  const expiresAt = code.expiresAt as string;
+  const item = toFeedItem(code, context);
+  const reward = renderReward(code, context.template);
+  const summary = reward ? `SHiFT: ${reward} (${code.codeText})` : `SHiFT: ${code.codeText}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${code.id}@${ICS_UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${toIcsDateTime(code.updatedAt)}`,
+    `SEQUENCE:${calendarSequence(code)}`,
+  ];
+  if (options.allDay) {
+    const start = toIcsDate(expiresAt);
+    const end = toIcsDate(new Date(Date.parse(expiresAt) + 24 * 60 * 60 * 1000).toISOString());
+    lines.push(`DTSTART;VALUE=DATE:${start}`, `DTEND;VALUE=DATE:${end}`, 'TRANSP:TRANSPARENT');
+  } else {
+    lines.push(`DTSTART:${toIcsDateTime(expiresAt)}`, `DTEND:${toIcsDateTime(expiresAt)}`, 'TRANSP:TRANSPARENT');
+  }
+  lines.push(
+    `SUMMARY:${escapeIcsText(summary)}`,
+    `DESCRIPTION:${escapeIcsText(item.summary)}`,
+    `URL:${item.url}`,
+    ...(code.sources.length ? [`CATEGORIES:${code.sources.map(escapeIcsText).join(',')}`] : []),
+  );
+  if (!options.allDay) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-P1D',
+      `DESCRIPTION:${escapeIcsText(summary)}`,
+      'END:VALARM',
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * 有効期限が分かっているコードを iCalendar（VEVENT）として出力する。期限の早い順。
+ */
+export function buildIcsCalendar(
+  codes: ShiftCode[],
+  context: FeedContext,
+  options: CalendarOptions,
+  now = new Date(),
+): string {
+  const stamp = toIcsDateTime(now.toISOString());
+  const events = codes
+    .filter((code) => code.expiresAt && !Number.isNaN(Date.parse(code.expiresAt)))
+    .sort((a, b) => Date.parse(a.expiresAt as string) - Date.parse(b.expiresAt as string))
+    .flatMap((code) => toCalendarEvent(code, context, options, stamp));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(FEED_TITLE)}`,
+    ...events,
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,187 @@
+/**
+ * games.ts
+ *
+ * 監視対象タイトル（Borderlands シリーズ）の定義とレジストリ。
+ * - タイトルごとにコード形式（検証・抽出の正規表現）と取得先ソースの設定を持つ
+ * - 監視するタイトルは `GAMES_ENABLED`（未設定なら BL4 のみ）で選ぶ
+ * - BL4 の取得先は従来どおり `SOURCE_*_URL`、それ以外のタイトルは `GAME_SOURCES`（JSON）で指定する
+ * - コードの同一性判定ハッシュは `<タイトル>:<正規化コード>` とし、タイトルが違えば別レコードとして扱う
+ */
+import type { WorkerEnv } from './env';
+import type { GameId, SourceName } from './models';
+
+/**
+ * タイトル × ソースの取得先設定。
+ * - envKey: URL を指定する環境変数
+ * - defaultUrl: CLI での既定 URL（Worker の監視実行では使わず、取得するには URL の明示的な指定が必要）
+ */
+export interface GameSourceConfig {
+  envKey?: keyof WorkerEnv;
+  defaultUrl?: string;
+}
+
+/**
+ * タイトルの定義。
+ * - codePattern: 正規化後のコード形式（完全一致で検証）
+ * - codeFinder: 本文からコード候補を抜き出すパターン（g フラグ付き）
+ * - listingCaption: PC Gamer 記事の有効コード表の見出し（表を掲載一覧として解析する場合のみ）
+ */
+export interface GameDefinition {
+  id: GameId;
+  name: string;
+  codePattern: RegExp;
+  codeFinder: RegExp;
+  listingCaption?: string;
+  sources: Partial<Record<SourceName, GameSourceConfig>>;
+}
+
+// SHiFT コードの標準形式（5 桁 × 5 ブロック）
+const SHIFT_CODE_PATTERN = /^[A-Z0-9]{5}(?:-[A-Z0-9]{5}){4}$/;
+const SHIFT_CODE_FINDER = /[A-Z0-9]{5}(?:-[A-Z0-9]{5}){4}/g;
+
+/**
+ * 既存レコード（タイトル導入前）の既定タイトル。
+ */
+export const DEFAULT_GAME: GameId = 'BL4';
+
+/**
+ * タイトルのレジストリ。
+ */
+export const games: Record<GameId, GameDefinition> = {
+  BL4: {
+    id: 'BL4',
+    name: 'Borderlands 4',
+    codePattern: SHIFT_CODE_PATTERN,
+    codeFinder: SHIFT_CODE_FINDER,
+    listingCaption: 'Active Borderlands 4 Shift codes',
+    sources: {
+      OFFICIAL_SITE: { envKey: 'SOURCE_OFFICIAL_SITE_URL' },
+      OFFICIAL_X: { envKey: 'SOURCE_OFFICIAL_X_URL' },
+      MEDIA_TRUSTED: {
+        envKey: 'SOURCE_MEDIA_TRUSTED_URL',
+        defaultUrl: 'https://www.pcgamer.com/games/fps/borderlands-4-shift-codes/',
+      },
+      COMMUNITY_AUX: { envKey: 'SOURCE_COMMUNITY_AUX_URL' },
+    },
+  },
+  BL3: {
+    id: 'BL3',
+    name: 'Borderlands 3',
+    codePattern: SHIFT_CODE_PATTERN,
+    codeFinder: SHIFT_CODE_FINDER,
+    sources: {},
+  },
+  TTWL: {
+    id: 'TTWL',
+    name: "Tiny Tina's Wonderlands",
+    codePattern: SHIFT_CODE_PATTERN,
+    codeFinder: SHIFT_CODE_FINDER,
+    sources: {},
+  },
+  BL2: {
+    id: 'BL2',
+    name: 'Borderlands 2',
+    codePattern: SHIFT_CODE_PATTERN,
+    codeFinder: SHIFT_CODE_FINDER,
+    sources: {},
+  },
+  BLTPS: {
+    id: 'BLTPS',
+    name: 'Borderlands: The Pre-Sequel',
+    codePattern: SHIFT_CODE_PATTERN,
+    codeFinder: SHIFT_CODE_FINDER,
+    sources: {},
+  },
+};
+
+/**
+ * タイトル ID の一覧。
+ */
+export const GAME_IDS = Object.keys(games) as GameId[];
+
+/**
+ * 値がタイトル ID か。
+ */
+export function isGameId(value: unknown): value is GameId {
+  return typeof value === 'string' && (GAME_IDS as string[]).includes(value);
+}
+
+/**
+ * タイトル ID のリストを解釈する（JSON 配列またはカンマ区切り、大文字小文字は区別しない）。
+ * 未知の ID は警告して無視する。
+ */
+export function parseGameList(raw: string | undefined): GameId[] {
+  if (!raw || !raw.trim()) {
+    return [];
+  }
+  let items: unknown[];
+  try {
+    const decoded = JSON.parse(raw);
+    items = Array.isArray(decoded) ? decoded : [decoded];
+  } catch {
+    items = raw.split(',');
+  }
+  const ids: GameId[] = [];
+  for (const item of items) {
+    const value = String(item).trim().toUpperCase();
+    if (isGameId(value)) {
+      if (!ids.includes(value)) {
+        ids.push(value);
+      }
+    } else if (value) {
+      console.warn(`Unknown game id ignored: ${value}`);
+    }
+  }
+  return ids;
+}
+
+/**
+ * 監視するタイトルを `GAMES_ENABLED` から解決する（未設定・有効な値なしなら BL4 のみ）。
+ */
+export function resolveEnabledGames(env: WorkerEnv): GameId[] {
+  const enabled = parseGameList(env.GAMES_ENABLED);
+  return enabled.length ? enabled : [DEFAULT_GAME];
+}
+
+// `GAME_SOURCES`（例: {"BL3":{"MEDIA_TRUSTED":"https://..."}}）を解釈
+function loadGameSourceOverrides(env: WorkerEnv): Partial<Record<GameId, Partial<Record<SourceName, string>>>> {
+  if (!env.GAME_SOURCES) {
+    return {};
+  }
+  try {
+    const decoded = JSON.parse(env.GAME_SOURCES);
+    return decoded && typeof decoded === 'object' ? decoded : {};
+  } catch (error) {
+    console.warn('Failed to parse GAME_SOURCES, ignoring', error);
+    return {};
+  }
+}
+
+/**
+ * タイトル × ソースの取得先 URL を解決する。
+ * 優先順位は `GAME_SOURCES` > タイトル定義の環境変数 > 既定 URL（`useDefaultUrl` を指定した場合のみ）。
+ */
+export function resolveGameSourceUrl(
+  env: WorkerEnv,
+  game: GameId,
+  source: SourceName,
+  useDefaultUrl = false,
+): string | null {
+  const override = loadGameSourceOverrides(env)[game]?.[source];
+  if (typeof override === 'string' && override.length > 0) {
+    return override;
+  }
+  const config = games[game].sources[source];
+  const value = config?.envKey ? env[config.envKey] : undefined;
+  if (typeof value === 'string' && value.length > 0) {
+    return value;
+  }
+  return useDefaultUrl ? config?.defaultUrl ?? null : null;
+}
+
+/**
+ * タイトルの表示名（未設定・未知の値は BL4 とみなす）。
+ */
+export function gameName(game: GameId | undefined): string {
+  return game && isGameId(game) ? games[game].name : games[DEFAULT_GAME].name;
+}
@@ -10,25 +10,122 @@ import { cors } from 'hono/cors';
 import type { Context } from 'hono';
 import type { WorkerEnv } from './env';
 import {
+  deleteSubscriber,
   getCodeById,
   getMetrics,
-  listCodes,
+  listChangesSince,
+  listCodeChanges,
+  getSubscriber,
+  iterateCodesByFirstSeenDesc,
+  listCodesByStatuses,
+  listCodesByStatus,
+  listMetricsHistory,
   listDetectionLogs,
   listNotificationLogs,
+  listApiKeys,
   listSourceTrust,
+  listSubmissions,
+  listSubscribers,
+  getSubmission,
+  saveApiKey,
+  saveSubscriber,
   setSourceTrust,
 } from './storage';
-import { resendNotifications, runMonitor } from './monitor';
+import type { LogRange } from './storage';
+import { notifyCodeIfNeeded, resendNotifications, runMonitor } from './monitor';
+import { acquireRunLease, releaseRunLease, requireRunLease, RunInProgressError, toRunInProgressBody } from './lease';
+import { summarizeMetricsHistory } from './metrics';
+import { sweepExpiredCodes } from './sweeper';
+import { compactLogs } from './compaction';
+import { runScheduledDigests, sendPeriodicDigest } from './digest';
+import { buildSubscriber, SubscriberValidationError, toPublicSubscriber } from './subscribers';
+import type { SubscriberInput } from './subscribers';
+import { API_KEY_SCOPES, issueApiKey, requireScope, toPublicApiKey } from './auth';
+import type { AppEnv } from './auth';
+import { clientAddress, rateLimit } from './ratelimit';
+import { cacheResponse, clearResponseCache } from './cache';
+import { buildAtomFeed, buildIcsCalendar, buildJsonFeed, buildRssFeed } from './feeds';
+import type { FeedContext } from './feeds';
+import { createExportStream, EXPORT_CONTENT_TYPES, EXPORT_DATASETS, EXPORT_FORMATS } from './export';
+import type { ExportDataset, ExportFormat } from './export';
+import { resolveTemplate } from './templates';
+import { listEnabledAdapters, listGameAdapters, resolveSourceUrl } from './sources';
+import { isGameId } from './games';
+import { isPlatform, matchesPlatforms } from './platforms';
+import { compareRewards, matchesRewardFilter } from './rewards';
+import { planSourceSchedule } from './scheduler';
+import { loadCircuitBreaker } from './breaker';
+import { rescoreCodesForSource } from './trust';
+import {
+  CODE_STATUSES,
+  CodeValidationError,
+  createManualCode,
+  DuplicateCodeError,
+  restoreCode,
+  softDeleteCode,
+  updateManualCode,
+} from './manual';
+import {
+  approveSubmission,
+  DuplicateSubmissionError,
+  rejectSubmission,
+  SUBMISSION_STATUSES,
+  SubmissionAlreadyReviewedError,
+  SubmissionClientLimitError,
+  SubmissionCodeDeletedError,
+  SubmissionQueueFullError,
+  submitCode,
+  toPublicSubmission,
+} from './submissions';
 import { parseNumber, toIsoString } from './utils';
-import type { CodeStatus, SourceName } from './models';
+import type {
+  ApiKeyScope,
+  ChangeActor,
+  CodeStatus,
+  DigestPeriod,
+  GameId,
+  Platform,
+  ShiftCode,
+  SourceName,
+  SubmissionStatus,
+} from './models';
 
 // 一度に返す最大件数（上限）
 const MAX_LIMIT = 250;
+// メトリクス履歴の既定の参照期間（日）
+const DEFAULT_METRICS_HISTORY_DAYS = 7;
+
+// 認証なしで公開するパス（`/api/v1` 配下を含む。GET のみ）
+const PUBLIC_PATH_PATTERN = /^(\/api\/v1)?(\/|\/health|\/codes(\/[^/]+|\.rss|\.atom|\.ics)?|\/feed\.json)?$/;
+// 認証なしで受け付ける書き込み（コードの投稿。POST のみ）
+const PUBLIC_SUBMISSION_PATH_PATTERN = /^(\/api\/v1)?\/submissions$/;
 
 // Hono アプリ本体。`Bindings` に Cloudflare Workers の `env` 型を紐付け
-const app = new Hono<{ Bindings: WorkerEnv }>();
-// CORS を全ルートに適用
-app.use('*', cors());
+const app = new Hono<AppEnv>();
+// CORS: `CORS_ALLOWED_ORIGINS` 指定時はそのオリジンのみ、未指定時は公開エンドポイントのみ全オリジンに許可
+app.use(
+  '*',
+  cors({
+    origin: (origin, c) => {
+      const env = c.env as WorkerEnv;
+      const allowed = (env.CORS_ALLOWED_ORIGINS ?? '')
+        .split(',')
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0);
+      if (allowed.length) {
+        return allowed.includes(origin) ? origin : null;
+      }
+      // プリフライトは実際に送るメソッドで判定（コードの登録・編集など同じパスの書き込み系は公開しない）
+      const method =
+        c.req.method === 'OPTIONS' ? c.req.header('Access-Control-Request-Method') ?? 'GET' : c.req.method;
+      const publicPath = ['GET', 'HEAD'].includes(method.toUpperCase())
+        ? PUBLIC_PATH_PATTERN.test(c.req.path)
+        : method.toUpperCase() === 'POST' && PUBLIC_SUBMISSION_PATH_PATTERN.test(c.req.path);
+      return publicPath ? '*' : null;
+    },
+    allowHeaders: ['Authorization', 'Content-Type'],
+  }),
+);
 
 // グローバルエラーハンドラ
 app.onError((err, c) => {
@@ -44,13 +141,13 @@ app.onError((err, c) => {
 });
 
 // クエリ `limit` を解釈し、[1, MAX_LIMIT] に丸める
-function parseLimitFromContext(c: Context<{ Bindings: WorkerEnv }>): number {
+function parseLimitFromContext(c: Context<AppEnv>): number {
   const limit = parseNumber(c.req.query('limit'), 100);
   return Math.min(Math.max(limit, 1), MAX_LIMIT);
 }
 
 // クエリ `offset` を解釈し、0 以上の整数でない場合は 400 を返す側で例外化
-function parseOffsetFromContext(c: Context<{ Bindings: WorkerEnv }>): number {
+function parseOffsetFromContext(c: Context<AppEnv>): number {
   const raw = c.req.query('offset');
   if (!raw) {
     return 0;
@@ -62,14 +159,193 @@ function parseOffsetFromContext(c: Context<{ Bindings: WorkerEnv }>): number {
   return parsed;
 }
 
+// クエリの日時パラメータを ISO 文字列に変換。未指定ならフォールバック、解釈不能なら例外
+function parseDateQuery(c: Context<AppEnv>, name: string, fallback: Date): string {
+  const raw = c.req.query(name);
+  if (!raw) {
+    return toIsoString(fallback);
+  }
+  const parsed = Date.parse(raw);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid ${name} parameter`);
+  }
+  return toIsoString(new Date(parsed));
+}
+
+// クエリの日時パラメータを ISO 文字列に変換（未指定なら undefined、解釈不能なら例外）
+function parseOptionalDateQuery(c: Context<AppEnv>, name: string): string | undefined {
+  const raw = c.req.query(name);
+  if (!raw) {
+    return undefined;
+  }
+  const parsed = Date.parse(raw);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid ${name} parameter`);
+  }
+  return toIsoString(new Date(parsed));
+}
+
+// クエリ `since` / `until` をログの期間指定に変換（解釈不能・前後が逆なら例外）
+function parseLogRangeQuery(c: Context<AppEnv>): LogRange {
+  const since = parseOptionalDateQuery(c, 'since');
+  const until = parseOptionalDateQuery(c, 'until');
+  if (since && until && Date.parse(since) > Date.parse(until)) {
+    throw new Error('since must be before until');
+  }
+  return { since, until };
+}
+
+// クエリ `status` を解釈（未指定なら undefined、不正値なら例外）
+function parseStatusQuery(c: Context<AppEnv>): CodeStatus | undefined {
+  const raw = c.req.query('status');
+  if (!raw) {
+    return undefined;
+  }
+  if (!['Active', 'Expired', 'Hold'].includes(raw)) {
+    throw new Error('Invalid status parameter');
+  }
+  return raw as CodeStatus;
+}
+
+// クエリ `game` を解釈（カンマ区切りで複数指定可。未指定なら undefined、不正値なら例外）
+function parseGameQuery(c: Context<AppEnv>): GameId[] | undefined {
+  const raw = c.req.query('game');
+  if (!raw) {
+    return undefined;
+  }
+  const values = raw
+    .split(',')
+    .map((value) => value.trim().toUpperCase())
+    .filter((value) => value.length > 0);
+  if (!values.length || values.some((value) => !isGameId(value))) {
+    throw new Error('Invalid game parameter');
+  }
+  return values as GameId[];
+}
+
+// コードがクエリ `game` の指定に一致するか
+function matchesGameQuery(code: ShiftCode, games: GameId[] | undefined): boolean {
+  return !games || games.includes(code.title);
+}
+
+// クエリ `platform` を解釈（カンマ区切りで複数指定可。未指定なら undefined、不正値なら例外）
+function parsePlatformQuery(c: Context<AppEnv>): Platform[] | undefined {
+  const raw = c.req.query('platform');
+  if (!raw) {
+    return undefined;
+  }
+  const values = raw
+    .split(',')
+    .map((value) => value.trim().toUpperCase())
+    .filter((value) => value.length > 0);
+  if (!values.length || values.some((value) => !isPlatform(value))) {
+    throw new Error('Invalid platform parameter');
+  }
+  return values as Platform[];
+}
+
+// コードがクエリ `platform` の指定に一致するか（プラットフォーム未記載のコードは全プラットフォーム扱い）
+function matchesPlatformQuery(code: ShiftCode, platforms: Platform[] | undefined): boolean {
+  return !platforms || matchesPlatforms(code.platforms, platforms);
+}
+
+// クエリ `reward` を解釈（カンマ区切りで複数指定可。種別 ID または元の表記の部分一致。未指定なら undefined）
+function parseRewardQuery(c: Context<AppEnv>): string[] | undefined {
+  const values = (c.req.query('reward') ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+  return values.length ? values : undefined;
+}
+
+// クエリ `minQuantity` を解釈（1 以上の整数。未指定なら undefined、不正値なら例外）
+function parseMinQuantityQuery(c: Context<AppEnv>): number | undefined {
+  const raw = c.req.query('minQuantity');
+  if (!raw) {
+    return undefined;
+  }
+  const parsed = Number(raw);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error('Invalid minQuantity parameter');
+  }
+  return parsed;
+}
+
+// コード一覧の並べ替え（reward: 種別順・数量の多い順、quantity: 数量の多い順）
+type CodeSortKey = 'reward' | 'quantity';
+
+const CODE_SORTERS: Record<CodeSortKey, (a: ShiftCode, b: ShiftCode) => number> = {
+  reward: (a, b) => compareRewards(a.reward, b.reward),
+  quantity: (a, b) => (b.reward.quantity ?? 0) - (a.reward.quantity ?? 0),
+};
+
+// クエリ `sort` を解釈（未指定なら undefined、不正値なら例外）
+function parseSortQuery(c: Context<AppEnv>): CodeSortKey | undefined {
+  const raw = c.req.query('sort');
+  if (!raw) {
+    return undefined;
+  }
+  if (!Object.keys(CODE_SORTERS).includes(raw)) {
+    throw new Error('Invalid sort parameter');
+  }
+  return raw as CodeSortKey;
+}
+
+// フィード生成用の URL 情報（`/api/v1` 配下で呼ばれた場合はそちらをベースにする）
+function buildFeedContext(c: Context<AppEnv>): FeedContext {
+  const url = new URL(c.req.url);
+  const basePath = url.pathname.replace(/\/(codes\.rss|codes\.atom|codes\.ics|feed\.json)$/, '');
+  return {
+    selfUrl: url.toString(),
+    baseUrl: `${url.origin}${basePath}`,
+    template: resolveTemplate(c.env),
+  };
+}
+
+// 変更履歴に記録する変更主体（認証済みの API キー）
+function callerActor(c: Context<AppEnv>): ChangeActor {
+  return { type: 'API_KEY', id: c.get('caller')?.keyId };
+}
+
+// 状態の指定があればその状態の、なければ全状態のコードを状態インデックスから読み込む（論理削除済みは含まない）
+function loadCodesByStatusQuery(c: Context<AppEnv>, status: CodeStatus | undefined): Promise<ShiftCode[]> {
+  return status ? listCodesByStatus(c.env, status) : listCodesByStatuses(c.env, CODE_STATUSES);
+}
+
+// フィード用にコードを取得（status / game / platform フィルタ・limit 適用）
+// 初出日インデックスを新しい日からたどり、件数に達した日で読み込みを打ち切る
+async function loadFeedCodes(c: Context<AppEnv>) {
+  const status = parseStatusQuery(c);
+  const games = parseGameQuery(c);
+  const platforms = parsePlatformQuery(c);
+  const limit = parseLimitFromContext(c);
+  const codes: ShiftCode[] = [];
+  for await (const day of iterateCodesByFirstSeenDesc(c.env)) {
+    codes.push(
+      ...day.filter(
+        (code) =>
+          (!status || code.status === status) &&
+          matchesGameQuery(code, games) &&
+          matchesPlatformQuery(code, platforms),
+      ),
+    );
+    if (codes.length >= limit) {
+      break;
+    }
+  }
+  return codes.sort((a, b) => Date.parse(b.firstSeenAt) - Date.parse(a.firstSeenAt)).slice(0, limit);
+}
+
 /**
  * ルーティング定義。
  * - `/` と `/api/v1` の両方にバインドされる想定で複製登録する。
- * - 読み取り系（health/codes/logs/metrics）と管理系（trust/monitor/notifications）を提供。
+ * - 読み取り系（health/codes/logs/metrics）と管理系（コードの登録・編集・削除/trust/monitor/notifications）を提供。
+ * - `/`, `/health`, `/codes` 系の参照とフィード、コードの投稿（POST /submissions）は公開。それ以外は API キーのスコープ（read / operator / admin）で保護する。
+ * - 全ルートにルート群ごとのレート制限をかけ、一覧系は短時間キャッシュする。
  */
-function registerRoutes(router: Hono<{ Bindings: WorkerEnv }>) {
+function registerRoutes(router: Hono<AppEnv>) {
   // ルート: 稼働状況の簡易情報
-  router.get('/', (c) =>
+  router.get('/', rateLimit('public'), (c) =>
     c.json({
       message: 'Borderlands 4 SHiFT code monitor Cloudflare Worker',
       status: 'running',
@@ -79,7 +355,7 @@ function registerRoutes(router: Hono<{ Bindings: WorkerEnv }>) {
   );
 
   // ヘルスチェック: 直近実行情報を返す
-  router.get('/health', async (c) => {
+  router.get('/health', rateLimit('public'), async (c) => {
     const metrics = await getMetrics(c.env);
     return c.json({
       status: 'ok',
@@ -90,20 +366,30 @@ function registerRoutes(router: Hono<{ Bindings: WorkerEnv }>) {
     });
   });
 
-  // コード一覧: status/limit/offset でフィルタ・ページング
-  router.get('/codes', async (c) => {
+  // コード一覧: status/game/platform/reward/minQuantity でフィルタ、sort で並べ替え、limit/offset でページング
+  router.get('/codes', rateLimit('public'), cacheResponse(), async (c) => {
     try {
-      const statusFilter = c.req.query('status');
-      if (statusFilter && !['Active', 'Expired', 'Hold'].includes(statusFilter)) {
-        return c.json({ error: 'Invalid status parameter' }, 400);
-      }
+      const statusFilter = parseStatusQuery(c);
+      const games = parseGameQuery(c);
+      const platforms = parsePlatformQuery(c);
+      const rewards = parseRewardQuery(c);
+      const minQuantity = parseMinQuantityQuery(c);
+      const sort = parseSortQuery(c);
 
       const limit = parseLimitFromContext(c);
       const offset = parseOffsetFromContext(c);
-      const codes = await listCodes(c.env);
-      const filtered = statusFilter
-        ? codes.filter((code) => code.status === statusFilter)
-        : codes;
+      const codes = await loadCodesByStatusQuery(c, statusFilter);
+      const filtered = codes.filter(
+        (code) =>
+          (!statusFilter || code.status === statusFilter) &&
+          matchesGameQuery(code, games) &&
+          matchesPlatformQuery(code, platforms) &&
+          (!rewards || matchesRewardFilter(code, rewards)) &&
+          (minQuantity === undefined || (code.reward.quantity ?? 0) >= minQuantity),
+      );
+      if (sort) {
+        filtered.sort(CODE_SORTERS[sort]);
+      }
 
       const paginated = filtered.slice(offset, offset + limit);
       return c.json({
@@ -117,32 +403,306 @@ function registerRoutes(router: Hono<{ Bindings: WorkerEnv }>) {
     }
   });
 
-  // コード詳細: ID 指定で 1 件取得
-  router.get('/codes/:id', async (c) => {
+  // RSS 2.0 フィード（status/game/platform/limit 対応、初出の新しい順）
+  router.get('/codes.rss', rateLimit('public'), cacheResponse(), async (c) => {
+    try {
+      const xml = buildRssFeed(await loadFeedCodes(c), buildFeedContext(c));
+      return c.body(xml, 200, { 'Content-Type': 'application/rss+xml; charset=utf-8' });
+    } catch (error) {
+      return c.json({ error: 'Invalid request', details: (error as Error).message }, 400);
+    }
+  });
+
+  // Atom フィード
+  router.get('/codes.atom', rateLimit('public'), cacheResponse(), async (c) => {
+    try {
+      const xml = buildAtomFeed(await loadFeedCodes(c), buildFeedContext(c));
+      return c.body(xml, 200, { 'Content-Type': 'application/atom+xml; charset=utf-8' });
+    } catch (error) {
+      return c.json({ error: 'Invalid request', details: (error as Error).message }, 400);
+    }
+  });
+
+  // JSON Feed 1.1
+  router.get('/feed.json', rateLimit('public'), cacheResponse(), async (c) => {
+    try {
+      const feed = buildJsonFeed(await loadFeedCodes(c), buildFeedContext(c));
+      return c.body(JSON.stringify(feed), 200, { 'Content-Type': 'application/feed+json; charset=utf-8' });
+    } catch (error) {
+      return c.json({ error: 'Invalid request', details: (error as Error).message }, 400);
+    }
+  });
+
+  // iCalendar: 有効期限が分かっているコードの期限予定（既定は Active のみ。status/game/platform/reward/allDay 対応）
+  router.get('/codes.ics', rateLimit('public'), cacheResponse(), async (c) => {
+    try {
+      const status = parseStatusQuery(c) ?? 'Active';
+      const games = parseGameQuery(c);
+      const platforms = parsePlatformQuery(c);
+      const rewards = parseRewardQuery(c);
+      const codes = (await listCodesByStatus(c.env, status)).filter(
+        (code) =>
+          matchesGameQuery(code, games) &&
+          matchesPlatformQuery(code, platforms) &&
+          !code.metadata?.isFallback &&
+          (!rewards || matchesRewardFilter(code, rewards)),
+      );
+      const ics = buildIcsCalendar(codes, buildFeedContext(c), { allDay: c.req.query('allDay') === 'true' }, new Date());
+      return c.body(ics, 200, { 'Content-Type': 'text/calendar; charset=utf-8' });
+    } catch (error) {
+      return c.json({ error: 'Invalid request', details: (error as Error).message }, 400);
+    }
+  });
+
+  // コード詳細: ID 指定で 1 件取得（論理削除済みは 404）
+  router.get('/codes/:id', rateLimit('public'), cacheResponse(), async (c) => {
     const id = c.req.param('id');
     const code = await getCodeById(c.env, id);
-    if (!code) {
+    if (!code || code.deletedAt) {
+      return c.json({ error: 'Code not found' }, 404);
+    }
+    return c.json(code);
+  });
+
+  // コードの手動登録（収集対象外の場所で見つかったコード）。同じコードが登録済みなら 409
+  router.post('/codes', rateLimit('operator'), requireScope('operator'), requireRunLease(), async (c) => {
+    const body = await c.req.json().catch(() => null);
+    try {
+      const code = await createManualCode(c.env, body, callerActor(c), new Date());
+      clearResponseCache();
+      return c.json(code, 201);
+    } catch (error) {
+      if (error instanceof CodeValidationError) {
+        return c.json({ error: error.message }, 400);
+      }
+      if (error instanceof DuplicateCodeError) {
+        return c.json(
+          { error: 'Code already exists', id: error.existing.id, deleted: Boolean(error.existing.deletedAt) },
+          409,
+        );
+      }
+      throw error;
+    }
+  });
+
+  // コードの手動更新: 指定した項目のみ上書き（論理削除済みは 404。先に復元する）
+  router.patch('/codes/:id', rateLimit('operator'), requireScope('operator'), requireRunLease(), async (c) => {
+    const current = await getCodeById(c.env, c.req.param('id'));
+    if (!current || current.deletedAt) {
+      return c.json({ error: 'Code not found' }, 404);
+    }
+    const body = await c.req.json().catch(() => null);
+    try {
+      const code = await updateManualCode(c.env, current, body, callerActor(c), new Date());
+      clearResponseCache();
+      return c.json(code);
+    } catch (error) {
+      if (error instanceof CodeValidationError) {
+        return c.json({ error: error.message }, 400);
+      }
+      throw error;
+    }
+  });
+
+  // コードの論理削除（一覧・フィード・通知の対象から外す。記録と変更履歴は残る）
+  router.delete('/codes/:id', rateLimit('operator'), requireScope('operator'), requireRunLease(), async (c) => {
+    const current = await getCodeById(c.env, c.req.param('id'));
+    if (!current) {
+      return c.json({ error: 'Code not found' }, 404);
+    }
+    const code = await softDeleteCode(c.env, current, callerActor(c), new Date());
+    clearResponseCache();
+    return c.json(code);
+  });
+
+  // 論理削除したコードの復元
+  router.post('/codes/:id/restore', rateLimit('operator'), requireScope('operator'), requireRunLease(), async (c) => {
+    const current = await getCodeById(c.env, c.req.param('id'));
+    if (!current) {
       return c.json({ error: 'Code not found' }, 404);
     }
+    const code = await restoreCode(c.env, current, callerActor(c), new Date());
+    clearResponseCache();
     return c.json(code);
   });
 
-  // 検出ログの最新から limit 件
-  router.get('/detection-logs', async (c) => {
+  // コードの変更履歴（古い順）
+  router.get('/codes/:id/history', rateLimit('read'), requireScope('read'), cacheResponse(), async (c) => {
+    const id = c.req.param('id');
+    const code = await getCodeById(c.env, id);
+    if (!code) {
+      return c.json({ error: 'Code not found' }, 404);
+    }
+    const changes = await listCodeChanges(c.env, id);
+    return c.json({ codeId: id, changes, total: changes.length });
+  });
+
+  // 全コードの変更履歴: since（既定は直近 24 時間）以降を古い順に limit 件。続きは cursor で取得
+  router.get('/changes', rateLimit('read'), requireScope('read'), cacheResponse(), async (c) => {
+    try {
+      const since = parseDateQuery(c, 'since', new Date(Date.now() - 24 * 60 * 60 * 1000));
+      const limit = parseLimitFromContext(c);
+      const result = await listChangesSince(c.env, since, limit, c.req.query('cursor') || undefined);
+      return c.json({ since, limit, ...result });
+    } catch (error) {
+      return c.json({ error: 'Invalid request', details: (error as Error).message }, 400);
+    }
+  });
+
+  // コードの投稿（公開）: 審査キューに Hold の候補として積む。既存のコード・審査待ちの投稿と同じなら 409
+  router.post('/submissions', rateLimit('submission'), async (c) => {
+    const body = await c.req.json().catch(() => null);
+    try {
+      const submission = await submitCode(c.env, body, new Date(), clientAddress(c));
+      return c.json(toPublicSubmission(submission), 202);
+    } catch (error) {
+      if (error instanceof CodeValidationError) {
+        return c.json({ error: error.message }, 400);
+      }
+      if (error instanceof DuplicateCodeError) {
+        return c.json(
+          { error: 'Code already known', ...(error.existing.deletedAt ? {} : { codeId: error.existing.id }) },
+          409,
+        );
+      }
+      if (error instanceof DuplicateSubmissionError) {
+        return c.json({ error: 'Code already submitted', submissionId: error.pending.id }, 409);
+      }
+      if (error instanceof SubmissionQueueFullError) {
+        return c.json({ error: error.message }, 503);
+      }
+      if (error instanceof SubmissionClientLimitError) {
+        return c.json({ error: error.message, code: 'SUBMISSION_LIMIT' }, 429);
+      }
+      throw error;
+    }
+  });
+
+  // 投稿の審査キュー: status（既定 PENDING）で絞り込み、古い順（審査済みは審査日時順）に limit/offset でページング
+  router.get('/submissions', rateLimit('read'), requireScope('read'), async (c) => {
+    const status = (c.req.query('status') ?? 'PENDING').toUpperCase() as SubmissionStatus;
+    if (!SUBMISSION_STATUSES.includes(status)) {
+      return c.json({ error: 'Invalid request', details: 'Invalid status parameter' }, 400);
+    }
+    let offset: number;
+    try {
+      offset = parseOffsetFromContext(c);
+    } catch (error) {
+      return c.json({ error: 'Invalid request', details: (error as Error).message }, 400);
+    }
+    const limit = parseLimitFromContext(c);
+    const { submissions, total } = await listSubmissions(c.env, status, offset, limit);
+    return c.json({ submissions, total, limit, offset });
+  });
+
+  // 投稿の承認: 候補を Active として保存・通知し、投稿者を発見者として記録
+  router.post('/submissions/:id/approve', rateLimit('operator'), requireScope('operator'), requireRunLease(), async (c) => {
+    const submission = await getSubmission(c.env, c.req.param('id'));
+    if (!submission) {
+      return c.json({ error: 'Submission not found' }, 404);
+    }
+    try {
+      const result = await approveSubmission(c.env, submission, callerActor(c), new Date());
+      clearResponseCache();
+      return c.json(result);
+    } catch (error) {
+      if (error instanceof SubmissionAlreadyReviewedError) {
+        return c.json({ error: error.message, status: error.submission.status }, 409);
+      }
+      if (error instanceof SubmissionCodeDeletedError) {
+        return c.json({ error: error.message, codeId: error.code.id }, 409);
+      }
+      throw error;
+    }
+  });
+
+  // 投稿の却下（本文の reason は任意）
+  router.post('/submissions/:id/reject', rateLimit('operator'), requireScope('operator'), async (c) => {
+    const submission = await getSubmission(c.env, c.req.param('id'));
+    if (!submission) {
+      return c.json({ error: 'Submission not found' }, 404);
+    }
+    // 本文なしでも却下できるよう、空の本文は理由なしとして扱う
+    const text = await c.req.text();
+    let body: unknown = {};
+    if (text.trim()) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return c.json({ error: 'Invalid JSON body' }, 400);
+      }
+    }
+    try {
+      return c.json(await rejectSubmission(c.env, submission, body, callerActor(c), new Date()));
+    } catch (error) {
+      if (error instanceof CodeValidationError) {
+        return c.json({ error: error.message }, 400);
+      }
+      if (error instanceof SubmissionAlreadyReviewedError) {
+        return c.json({ error: error.message, status: error.submission.status }, 409);
+      }
+      throw error;
+    }
+  });
+
+  // 検出ログの最新から limit 件（since/until で fetchedAt の期間指定）
+  router.get('/detection-logs', rateLimit('read'), requireScope('read'), cacheResponse(), async (c) => {
+    let range: LogRange;
+    try {
+      range = parseLogRangeQuery(c);
+    } catch (error) {
+      return c.json({ error: 'Invalid request', details: (error as Error).message }, 400);
+    }
     const limit = parseLimitFromContext(c);
-    const logs = await listDetectionLogs(c.env, limit);
-    return c.json({ logs, limit });
+    const logs = await listDetectionLogs(c.env, { ...range, limit });
+    return c.json({ logs, limit, ...range });
   });
 
-  // 通知ログの最新から limit 件
-  router.get('/notification-logs', async (c) => {
+  // 通知ログの最新から limit 件（since/until で createdAt の期間指定）
+  router.get('/notification-logs', rateLimit('read'), requireScope('read'), cacheResponse(), async (c) => {
+    let range: LogRange;
+    try {
+      range = parseLogRangeQuery(c);
+    } catch (error) {
+      return c.json({ error: 'Invalid request', details: (error as Error).message }, 400);
+    }
     const limit = parseLimitFromContext(c);
-    const logs = await listNotificationLogs(c.env, limit);
-    return c.json({ logs, limit });
+    const logs = await listNotificationLogs(c.env, { ...range, limit });
+    return c.json({ logs, limit, ...range });
+  });
+
+  // 一括エクスポート: codes / detection-logs / notification-logs を CSV または NDJSON で逐次出力
+  router.get('/export/:dataset', rateLimit('read'), requireScope('read'), (c) => {
+    const dataset = c.req.param('dataset') as ExportDataset;
+    if (!EXPORT_DATASETS.includes(dataset)) {
+      return c.json({ error: 'Unknown dataset' }, 404);
+    }
+    const format = (c.req.query('format') ?? 'ndjson') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return c.json({ error: 'Invalid request', details: 'Invalid format parameter' }, 400);
+    }
+
+    let since: string | undefined;
+    let until: string | undefined;
+    try {
+      since = parseOptionalDateQuery(c, 'since');
+      until = parseOptionalDateQuery(c, 'until');
+    } catch (error) {
+      return c.json({ error: 'Invalid request', details: (error as Error).message }, 400);
+    }
+    if (since && until && Date.parse(since) > Date.parse(until)) {
+      return c.json({ error: 'Invalid request', details: 'since must be before until' }, 400);
+    }
+
+    const filename = `${dataset}-${toIsoString(new Date()).slice(0, 10)}.${format}`;
+    return c.body(createExportStream(c.env, dataset, format, { since, until }), 200, {
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
   });
 
   // メトリクスの取得（存在しない場合は既定形で返す）
-  router.get('/metrics', async (c) => {
+  router.get('/metrics', rateLimit('read'), requireScope('read'), async (c) => {
     const metrics = await getMetrics(c.env);
     if (!metrics) {
       return c.json({
@@ -162,8 +722,34 @@ function registerRoutes(router: Hono<{ Bindings: WorkerEnv }>) {
     return c.json(metrics);
   });
 
+  // メトリクス履歴: since/until（ISO）で期間指定し、日次集計と合わせて返す
+  router.get('/metrics/history', rateLimit('read'), requireScope('read'), async (c) => {
+    let since: string;
+    let until: string;
+    try {
+      const now = new Date();
+      until = parseDateQuery(c, 'until', now);
+      since = parseDateQuery(
+        c,
+        'since',
+        new Date(Date.parse(until) - DEFAULT_METRICS_HISTORY_DAYS * 24 * 60 * 60 * 1000),
+      );
+    } catch (error) {
+      return c.json({ error: 'Invalid request', details: (error as Error).message }, 400);
+    }
+    if (Date.parse(since) > Date.parse(until)) {
+      return c.json({ error: 'Invalid request', details: 'since must be before until' }, 400);
+    }
+
+    const history = await listMetricsHistory(c.env, since, until);
+    return c.json({
+      runs: history,
+      summary: summarizeMetricsHistory(history, since, until),
+    });
+  });
+
   // ソースの信頼重み一覧
-  router.get('/sources/trust', async (c) => {
+  router.get('/sources/trust', rateLimit('read'), requireScope('read'), async (c) => {
     const records = await listSourceTrust(c.env);
     return c.json({
       sources: records,
@@ -171,8 +757,31 @@ function registerRoutes(router: Hono<{ Bindings: WorkerEnv }>) {
     });
   });
 
+  // タイトル × ソースごとの取得状況（有効/URL・スケジュール・サーキットブレーカー）
+  router.get('/sources/status', rateLimit('read'), requireScope('read'), async (c) => {
+    const now = new Date();
+    const enabled = new Set(listEnabledAdapters(c.env));
+    const adapters = listGameAdapters(c.env);
+    const schedule = await planSourceSchedule(c.env, adapters, now);
+    const sources = await Promise.all(
+      adapters.map(async (adapter) => ({
+        source: adapter.id,
+        game: adapter.game,
+        enabled: enabled.has(adapter),
+        url: resolveSourceUrl(c.env, adapter),
+        schedule: schedule.find((entry) => entry.source === adapter.id && entry.game === adapter.game) ?? null,
+        breaker: await loadCircuitBreaker(c.env, adapter.id, now, adapter.game),
+      })),
+    );
+    return c.json({
+      sources,
+      total: sources.length,
+      timestamp: toIsoString(now),
+    });
+  });
+
   // ソースの信頼重みを更新（0〜1 に正規化）
-  router.put('/sources/trust/:source', async (c) => {
+  router.put('/sources/trust/:source', rateLimit('operator'), requireScope('operator'), requireRunLease(), async (c) => {
     const source = c.req.param('source').toUpperCase() as SourceName;
     if (!['OFFICIAL_SITE', 'OFFICIAL_X', 'MEDIA_TRUSTED', 'COMMUNITY_AUX'].includes(source)) {
       return c.json({ error: 'Unknown source' }, 404);
@@ -184,19 +793,38 @@ function registerRoutes(router: Hono<{ Bindings: WorkerEnv }>) {
     }
 
     const score = Math.min(Math.max(body.score, 0), 1);
-    const record = await setSourceTrust(c.env, source, score, toIsoString(new Date()));
+    const updatedAt = toIsoString(new Date());
+    const record = await setSourceTrust(c.env, source, score, updatedAt);
+    // Active / Hold のコードの確度・低信頼判定を新しい重みで更新し、Hold→Active に昇格したコードは通知する
+    const actor = callerActor(c);
+    const { rescored, promoted } = await rescoreCodesForSource(c.env, source, updatedAt, actor);
+    for (const code of promoted) {
+      await notifyCodeIfNeeded(c.env, code, actor, new Date());
+    }
+    if (rescored) {
+      clearResponseCache();
+    }
 
-    return c.json(record);
+    return c.json({ ...record, rescoredCodes: rescored });
   });
 
-  // 監視処理を手動実行
-  router.post('/monitor/run', async (c) => {
-    const result = await runMonitor(c.env, new Date());
-    return c.json(result);
+  // 監視処理を手動実行。`?force=true` でポーリング間隔を無視して全ソースを取得
+  // 他の実行（Cron など）が進行中なら 409 と保持中の実行 ID を返す
+  router.post('/monitor/run', rateLimit('operator'), requireScope('operator'), async (c) => {
+    const force = c.req.query('force') === 'true';
+    try {
+      const result = await runMonitor(c.env, new Date(), { force, trigger: 'MANUAL' });
+      return c.json(result);
+    } catch (error) {
+      if (error instanceof RunInProgressError) {
+        return c.json(toRunInProgressBody(error.holder), 409);
+      }
+      throw error;
+    }
   });
 
   // 通知の再送（フィルタ・件数・期限切れ取扱い等を指定可能）
-  router.post('/notifications/resend', async (c) => {
+  router.post('/notifications/resend', rateLimit('operator'), requireScope('operator'), requireRunLease(), async (c) => {
     const body = await c.req.json<{ codeIds?: string[]; statuses?: string[]; limit?: number; includeFallback?: boolean; includeExpired?: boolean }>().catch(() => null);
     if (!body || typeof body !== 'object') {
       return c.json({ error: 'Invalid JSON body' }, 400);
@@ -242,7 +870,11 @@ function registerRoutes(router: Hono<{ Bindings: WorkerEnv }>) {
     const includeFallback = typeof body.includeFallback === 'boolean' ? body.includeFallback : false;
     const includeExpired = typeof body.includeExpired === 'boolean' ? body.includeExpired : false;
 
-    const summary = await resendNotifications(c.env, { codeIds, statuses, limit, includeFallback, includeExpired });
+    const summary = await resendNotifications(
+      c.env,
+      { codeIds, statuses, limit, includeFallback, includeExpired },
+      callerActor(c),
+    );
 
     return c.json({
       message: summary.sent > 0 ? 'Notifications dispatched' : 'No notifications sent',
@@ -250,8 +882,123 @@ function registerRoutes(router: Hono<{ Bindings: WorkerEnv }>) {
     });
   });
 
+  // 購読者一覧（送信先 URL は伏せて返す）
+  router.get('/subscribers', rateLimit('read'), requireScope('read'), async (c) => {
+    const subscribers = await listSubscribers(c.env);
+    return c.json({ subscribers: subscribers.map(toPublicSubscriber), total: subscribers.length });
+  });
+
+  // 購読者詳細
+  router.get('/subscribers/:id', rateLimit('read'), requireScope('read'), async (c) => {
+    const subscriber = await getSubscriber(c.env, c.req.param('id'));
+    if (!subscriber) {
+      return c.json({ error: 'Subscriber not found' }, 404);
+    }
+    return c.json(toPublicSubscriber(subscriber));
+  });
+
+  // 購読者の登録: name / destination / url と通知条件（filters）を指定
+  router.post('/subscribers', rateLimit('operator'), requireScope('operator'), async (c) => {
+    const body = await c.req.json<SubscriberInput>().catch(() => null);
+    try {
+      const subscriber = buildSubscriber(body as SubscriberInput, new Date());
+      await saveSubscriber(c.env, subscriber);
+      return c.json(toPublicSubscriber(subscriber), 201);
+    } catch (error) {
+      if (error instanceof SubscriberValidationError) {
+        return c.json({ error: error.message }, 400);
+      }
+      throw error;
+    }
+  });
+
+  // 購読者の更新: 指定した項目のみ上書き（filters は項目単位でマージ）
+  router.patch('/subscribers/:id', rateLimit('operator'), requireScope('operator'), async (c) => {
+    const current = await getSubscriber(c.env, c.req.param('id'));
+    if (!current) {
+      return c.json({ error: 'Subscriber not found' }, 404);
+    }
+    const body = await c.req.json<SubscriberInput>().catch(() => null);
+    try {
+      const subscriber = buildSubscriber(body as SubscriberInput, new Date(), current);
+      await saveSubscriber(c.env, subscriber);
+      return c.json(toPublicSubscriber(subscriber));
+    } catch (error) {
+      if (error instanceof SubscriberValidationError) {
+        return c.json({ error: error.message }, 400);
+      }
+      throw error;
+    }
+  });
+
+  // 購読者の削除
+  router.delete('/subscribers/:id', rateLimit('operator'), requireScope('operator'), async (c) => {
+    const id = c.req.param('id');
+    const current = await getSubscriber(c.env, id);
+    if (!current) {
+      return c.json({ error: 'Subscriber not found' }, 404);
+    }
+    await deleteSubscriber(c.env, id);
+    return c.json({ deleted: id });
+  });
+
+  // 管理: API キー一覧（ハッシュは返さない）
+  router.get('/auth/keys', rateLimit('admin'), requireScope('admin'), async (c) => {
+    const keys = await listApiKeys(c.env);
+    return c.json({ keys: keys.map(toPublicApiKey), total: keys.length });
+  });
+
+  // 管理: API キーの発行（平文のキーはこのレスポンスでのみ返す）
+  router.post('/auth/keys', rateLimit('admin'), requireScope('admin'), async (c) => {
+    const body = await c.req.json<{ name?: unknown; scope?: unknown }>().catch(() => null);
+    if (!body || typeof body.name !== 'string' || !body.name.trim()) {
+      return c.json({ error: 'name is required' }, 400);
+    }
+    if (!API_KEY_SCOPES.includes(body.scope as ApiKeyScope)) {
+      return c.json({ error: `scope must be one of: ${API_KEY_SCOPES.join(', ')}` }, 400);
+    }
+    const { key, record } = await issueApiKey(c.env, body.name.trim(), body.scope as ApiKeyScope, new Date());
+    return c.json({ ...toPublicApiKey(record), key }, 201);
+  });
+
+  // 管理: API キーの失効（記録は残し、以後の認証を拒否）
+  router.delete('/auth/keys/:id', rateLimit('admin'), requireScope('admin'), async (c) => {
+    const id = c.req.param('id');
+    const record = (await listApiKeys(c.env)).find((item) => item.id === id);
+    if (!record) {
+      return c.json({ error: 'API key not found' }, 404);
+    }
+    if (!record.revokedAt) {
+      record.revokedAt = toIsoString(new Date());
+      await saveApiKey(c.env, record);
+    }
+    return c.json(toPublicApiKey(record));
+  });
+
+  // 管理: 期限切れコードの掃除を手動実行
+  router.post('/admin/codes/sweep', rateLimit('admin'), requireScope('admin'), requireRunLease(), async (c) => {
+    const result = await sweepExpiredCodes(c.env, new Date());
+    return c.json(result);
+  });
+
+  // 管理: 検知・通知ログの圧縮と保持期限による削除を手動実行
+  router.post('/admin/logs/compact', rateLimit('admin'), requireScope('admin'), requireRunLease(), async (c) => {
+    const result = await compactLogs(c.env, new Date());
+    return c.json(result);
+  });
+
+  // 管理: 日次/週次ダイジェストを手動送信（`?period=daily|weekly`、送信済みの期間でも再送）
+  router.post('/admin/digest', rateLimit('admin'), requireScope('admin'), requireRunLease(), async (c) => {
+    const period = (c.req.query('period') ?? 'daily').toUpperCase();
+    if (period !== 'DAILY' && period !== 'WEEKLY') {
+      return c.json({ error: 'period must be daily or weekly' }, 400);
+    }
+    const result = await sendPeriodicDigest(c.env, period as DigestPeriod, new Date(), { force: true });
+    return c.json(result);
+  });
+
   // 管理: 指定プレフィックス配下の R2 オブジェクト件数をカウント（既定 `codes/`）
-  router.get('/admin/codes/count', async (c) => {
+  router.get('/admin/codes/count', rateLimit('admin'), requireScope('admin'), async (c) => {
     const prefix = c.req.query('prefix') ?? 'codes/';
     let cursor: string | undefined;
     let count = 0;
@@ -271,6 +1018,41 @@ function registerRoutes(router: Hono<{ Bindings: WorkerEnv }>) {
   });
 }
 
+/**
+ * Cron の処理（監視→期限切れ掃除→定期ダイジェスト→ログ圧縮の順）を 1 つのリースの中で実行する。
+ * 他の実行がリースを保持していれば何もしない。各処理の失敗はログに残して次の処理へ進む。
+ */
+async function runScheduledTasks(env: WorkerEnv, scheduledAt: Date): Promise<void> {
+  let lease;
+  try {
+    lease = await acquireRunLease(env, crypto.randomUUID(), 'CRON');
+  } catch (error) {
+    if (error instanceof RunInProgressError) {
+      console.warn(`Scheduled run skipped: run ${error.holder.runId} already in progress`);
+      return;
+    }
+    console.error('Scheduled run failed to acquire lease', error);
+    return;
+  }
+
+  try {
+    await runMonitor(env, scheduledAt, { trigger: 'CRON', lease }).catch((error) => {
+      console.error('Scheduled run failed', error);
+    });
+    await sweepExpiredCodes(env, scheduledAt).catch((error) => {
+      console.error('Scheduled expiry sweep failed', error);
+    });
+    await runScheduledDigests(env, scheduledAt).catch((error) => {
+      console.error('Scheduled digest failed', error);
+    });
+    await compactLogs(env, scheduledAt).catch((error) => {
+      console.error('Scheduled log compaction failed', error);
+    });
+  } finally {
+    await releaseRunLease(env, lease);
+  }
+}
+
 // ルート直下と `/api/v1` の 2 系統で同一路線を公開
 registerRoutes(app);
 registerRoutes(app.basePath('/api/v1'));
@@ -282,9 +1064,7 @@ export default {
   },
   // Cron（スケジュール）実行エントリポイント
   scheduled(event: ScheduledController, env: WorkerEnv, ctx: ExecutionContext) {
-    ctx.waitUntil(runMonitor(env, new Date(event.scheduledTime)).catch((error) => {
-      console.error('Scheduled run failed', error);
-    }));
+    ctx.waitUntil(runScheduledTasks(env, new Date(event.scheduledTime)));
   },
 };
 
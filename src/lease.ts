@@ -0,0 +1,134 @@
+/**
+ * lease.ts
+ *
+ * 監視実行の排他制御（単一実行リース）。
+ * - Cron と手動実行（`POST /monitor/run`）が同時に走らないよう、R2 の 1 オブジェクトをリースとして取得する
+ * - 取得・解放は etag による条件付き書き込みで行い、読み込みから書き込みまでの間に割り込まれたら取得失敗とする
+ * - リースは `RUN_LEASE_SECONDS`（既定 900 秒）で失効し、異常終了した実行が後続を止め続けないようにする
+ * - Cron は監視・期限切れ掃除・定期ダイジェスト・ログ圧縮を 1 つのリースの中で続けて実行する
+ * - コードを書き換える API（手動登録・更新・削除・復元、投稿の承認、信頼重みの変更、再送、管理用の掃除など）も
+ *   `requireRunLease()` でリースを取ってから処理し、監視実行と同じコードを同時に書き換えないようにする
+ */
+import type { MiddlewareHandler } from 'hono';
+import type { AppEnv } from './auth';
+import type { WorkerEnv } from './env';
+import type { RunLease, RunTrigger } from './models';
+import { getRunLease, putRunLeaseIfMatch } from './storage';
+import { parseNumber, toIsoString } from './utils';
+
+const DEFAULT_LEASE_SECONDS = 900;
+const MIN_LEASE_SECONDS = 60;
+
+/**
+ * 他の監視実行がリースを保持している。保持中のリース（実行 ID など）を持つ。
+ */
+export class RunInProgressError extends Error {
+  constructor(readonly holder: RunLease) {
+    super(`Run already in progress: ${holder.runId}`);
+    this.name = 'RunInProgressError';
+  }
+}
+
+/**
+ * 取得したリースと、解放時の条件付き書き込みに使う etag。
+ */
+export interface AcquiredRunLease {
+  lease: RunLease;
+  etag: string;
+}
+
+// 環境変数からリースの有効期間を解決
+function resolveLeaseMs(env: WorkerEnv): number {
+  const seconds = Math.max(MIN_LEASE_SECONDS, parseNumber(env.RUN_LEASE_SECONDS, DEFAULT_LEASE_SECONDS));
+  return seconds * 1000;
+}
+
+// 解放されておらず、期限内のリースか
+function isLeaseActive(lease: RunLease, now: Date): boolean {
+  return !lease.releasedAt && Date.parse(lease.expiresAt) > now.getTime();
+}
+
+/**
+ * 監視実行のリースを取得する。保持中のリースがあれば `RunInProgressError` を投げる。
+ * 失効したリース（異常終了した実行のもの）は引き継ぐ。
+ */
+export async function acquireRunLease(
+  env: WorkerEnv,
+  runId: string,
+  trigger: RunTrigger,
+  now = new Date(),
+): Promise<AcquiredRunLease> {
+  const current = await getRunLease(env);
+  if (current && isLeaseActive(current.lease, now)) {
+    throw new RunInProgressError(current.lease);
+  }
+
+  const lease: RunLease = {
+    runId,
+    trigger,
+    acquiredAt: toIsoString(now),
+    expiresAt: toIsoString(new Date(now.getTime() + resolveLeaseMs(env))),
+  };
+  const etag = await putRunLeaseIfMatch(env, lease, current?.etag ?? null);
+  if (!etag) {
+    // 読み込みから書き込みまでの間に他の実行が取得した
+    const winner = await getRunLease(env);
+    if (winner && isLeaseActive(winner.lease, now)) {
+      throw new RunInProgressError(winner.lease);
+    }
+    throw new Error('Failed to acquire run lease');
+  }
+
+  if (current && !current.lease.releasedAt) {
+    console.warn(`Took over expired run lease of ${current.lease.runId} (expired at ${current.lease.expiresAt})`);
+  }
+  return { lease, etag };
+}
+
+/**
+ * リースを解放する（期限を現在時刻にして解放済みとして書き戻す）。
+ * 失効後に他の実行が引き継いでいた場合は上書きしない。
+ */
+export async function releaseRunLease(env: WorkerEnv, acquired: AcquiredRunLease, now = new Date()): Promise<void> {
+  const releasedAt = toIsoString(now);
+  const etag = await putRunLeaseIfMatch(env, { ...acquired.lease, expiresAt: releasedAt, releasedAt }, acquired.etag);
+  if (!etag) {
+    console.warn(`Run lease of ${acquired.lease.runId} was taken over before release`);
+  }
+}
+
+/**
+ * 保持中のリースを API の 409 応答の本文にする。
+ */
+export function toRunInProgressBody(holder: RunLease) {
+  return {
+    error: 'Run already in progress',
+    runId: holder.runId,
+    trigger: holder.trigger,
+    acquiredAt: holder.acquiredAt,
+    expiresAt: holder.expiresAt,
+  };
+}
+
+/**
+ * ハンドラの間リースを保持するミドルウェア（MANUAL として取得）。他の実行が保持していれば 409 を返す。
+ * 認可ミドルウェアの後ろに置く。
+ */
+export function requireRunLease(): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    let acquired: AcquiredRunLease;
+    try {
+      acquired = await acquireRunLease(c.env, crypto.randomUUID(), 'MANUAL');
+    } catch (error) {
+      if (error instanceof RunInProgressError) {
+        return c.json(toRunInProgressBody(error.holder), 409);
+      }
+      throw error;
+    }
+    try {
+      await next();
+    } finally {
+      await releaseRunLease(c.env, acquired);
+    }
+  };
+}
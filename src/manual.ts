@@ -0,0 +1,275 @@
+/**
+ * manual.ts
+ *
+ * 運用者による API からのコードの登録・編集・取り下げ（POST / PATCH / DELETE /codes）。
+ * - 配信や Discord の告知など、収集対象外の場所で見つかったコードを登録するためのもの
+ * - 入力は zod で検証し、正規化・ハッシュ算出は収集時と同じ `draftToShiftCode` を通す
+ * - 削除は論理削除（`deletedAt` を付与）とし、一覧・フィード・通知の対象から外す。復元で元に戻せる
+ * - 登録・変更後は監視実行と同じ条件で通知する（未通知の Active など）
+ */
+import { z } from 'zod';
+import type { WorkerEnv } from './env';
+import type { ChangeActor, CodeStatus, GameId, PlatformScope, ShiftCode, SourceName } from './models';
+import { DEFAULT_GAME, GAME_IDS, games } from './games';
+import { PLATFORMS } from './platforms';
+import { draftToShiftCode } from './sources';
+import { getCodeByHash, saveCode } from './storage';
+import { notifyCodeIfNeeded } from './monitor';
+import { applyStatusTransition, toIsoString } from './utils';
+
+/**
+ * コードの状態の一覧。
+ */
+export const CODE_STATUSES: [CodeStatus, ...CodeStatus[]] = ['Active', 'Hold', 'Expired'];
+const SOURCE_NAMES: [SourceName, ...SourceName[]] = ['OFFICIAL_SITE', 'OFFICIAL_X', 'MEDIA_TRUSTED', 'COMMUNITY_AUX'];
+
+/**
+ * 入力できる引き換え範囲（全プラットフォーム共通の UNIVERSAL と個別のプラットフォーム）。
+ */
+export const PLATFORM_SCOPES: [PlatformScope, ...PlatformScope[]] = ['UNIVERSAL', ...PLATFORMS];
+
+/**
+ * 入力値が不正な場合のエラー（API では 400 として返す）。
+ */
+export class CodeValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodeValidationError';
+  }
+}
+
+/**
+ * 同じコード（同じタイトル・正規化後のコード）が登録済みの場合のエラー（API では 409 として返す）。
+ */
+export class DuplicateCodeError extends Error {
+  constructor(public readonly existing: ShiftCode) {
+    super(`Code already exists: ${existing.id}`);
+    this.name = 'DuplicateCodeError';
+  }
+}
+
+/**
+ * 前後の空白を除き大文字に揃えてから列挙値として検証するスキーマ。
+ */
+export function upperEnum<T extends string>(values: [T, ...T[]]) {
+  return z.preprocess((value) => (typeof value === 'string' ? value.trim().toUpperCase() : value), z.enum(values));
+}
+
+/**
+ * 日時として解釈できる文字列。
+ */
+export const dateSchema = z
+  .string()
+  .trim()
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' });
+
+/**
+ * http / https の URL（通知やフィードにそのまま載せるため、それ以外のスキームは受け付けない）。
+ */
+export const httpUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .max(500)
+  .refine((value) => /^https?:\/\//i.test(value), { message: 'URL must use http or https' });
+
+// metadata のうち入力できる項目（null で削除）
+const metadataSchema = z
+  .object({
+    url: httpUrlSchema.nullable().optional(),
+    notes: z.string().trim().min(1).max(1000).nullable().optional(),
+    discoveredBy: z.string().trim().min(1).max(100).nullable().optional(),
+  })
+  .strict();
+
+// 登録の入力
+const createCodeSchema = z
+  .object({
+    code: z.string().trim().min(1),
+    game: upperEnum(GAME_IDS as [GameId, ...GameId[]]).optional(),
+    source: upperEnum(SOURCE_NAMES).optional(),
+    rewardType: z.string().trim().max(200).nullable().optional(),
+    platforms: z.array(upperEnum(PLATFORM_SCOPES)).nullable().optional(),
+    expiresAt: dateSchema.nullable().optional(),
+    status: z.enum(CODE_STATUSES).optional(),
+    metadata: metadataSchema.optional(),
+  })
+  .strict();
+
+// 更新の入力（コード・タイトル・検出ソースは変更不可。null の項目は削除）
+const updateCodeSchema = createCodeSchema.omit({ code: true, game: true, source: true });
+
+/**
+ * 登録リクエストの入力。
+ */
+export type CreateCodeInput = z.infer<typeof createCodeSchema>;
+
+/**
+ * 更新リクエストの入力。
+ */
+export type UpdateCodeInput = z.infer<typeof updateCodeSchema>;
+
+/**
+ * スキーマで検証する。不正な入力は「項目: 理由」をまとめた `CodeValidationError` にする。
+ */
+export function parseInput<T extends z.ZodTypeAny>(schema: T, input: unknown): z.infer<T> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new CodeValidationError('Invalid JSON body');
+  }
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    const message = result.error.issues
+      .map((issue) => `${issue.path.length ? issue.path.join('.') : 'body'}: ${issue.message}`)
+      .join('; ');
+    throw new CodeValidationError(message);
+  }
+  return result.data;
+}
+
+// metadata に入力を反映（undefined の項目は維持、null の項目は削除。空になれば undefined）
+function applyMetadataInput(
+  metadata: ShiftCode['metadata'],
+  input: z.infer<typeof metadataSchema> | undefined,
+): ShiftCode['metadata'] {
+  const merged: NonNullable<ShiftCode['metadata']> = { ...metadata };
+  for (const key of ['url', 'notes', 'discoveredBy'] as const) {
+    const value = input?.[key];
+    if (value === null) {
+      delete merged[key];
+    } else if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+  return Object.keys(merged).length ? merged : undefined;
+}
+
+// metadata を差し替え（undefined なら項目ごと外す）
+function withMetadata(code: ShiftCode, metadata: ShiftCode['metadata']): ShiftCode {
+  const { metadata: _previous, ...rest } = code;
+  return metadata ? { ...rest, metadata } : rest;
+}
+
+/**
+ * コードを手動登録する。
+ * - 検出ソース（source）は任意。未指定ならソースなしで登録し、確度は付与しない
+ * - 状態は未指定なら Active
+ * - 同じコードが登録済み（論理削除済みを含む）なら `DuplicateCodeError`
+ */
+export async function createManualCode(
+  env: WorkerEnv,
+  input: unknown,
+  actor: ChangeActor,
+  now = new Date(),
+): Promise<ShiftCode> {
+  const body = parseInput(createCodeSchema, input);
+  const game = body.game ?? DEFAULT_GAME;
+  const draft = await draftToShiftCode(
+    body.source ?? null,
+    {
+      code: body.code,
+      rewardType: body.rewardType ?? undefined,
+      platforms: body.platforms ?? undefined,
+      expiresAt: body.expiresAt,
+      status: body.status,
+    },
+    now,
+    game,
+  );
+  if (!draft) {
+    throw new CodeValidationError(`code: Invalid ${games[game].name} code format`);
+  }
+
+  const existing = await getCodeByHash(env, draft.hash);
+  if (existing) {
+    throw new DuplicateCodeError(existing);
+  }
+
+  const code = withMetadata(draft, applyMetadataInput(draft.metadata, body.metadata));
+  await saveCode(env, code, actor);
+  return notifyCodeIfNeeded(env, code, actor, now);
+}
+
+/**
+ * コードを手動で更新する（入力に含まれる項目のみ上書き）。
+ * - 報酬・プラットフォーム・期限は登録時と同じ正規化を通す
+ * - 状態の変更は statusHistory に `MANUAL_UPDATE` として記録する
+ */
+export async function updateManualCode(
+  env: WorkerEnv,
+  current: ShiftCode,
+  input: unknown,
+  actor: ChangeActor,
+  now = new Date(),
+): Promise<ShiftCode> {
+  const body = parseInput(updateCodeSchema, input);
+  const nowIso = toIsoString(now);
+
+  const normalized = await draftToShiftCode(
+    null,
+    {
+      code: current.codeText,
+      rewardType: body.rewardType === undefined ? current.rewardType : body.rewardType ?? undefined,
+      platforms: body.platforms === undefined ? current.platforms : body.platforms ?? undefined,
+      expiresAt: body.expiresAt === undefined ? current.expiresAt : body.expiresAt,
+    },
+    now,
+    current.title,
+  );
+  if (!normalized) {
+    throw new CodeValidationError(`Stored code does not match the ${games[current.title].name} code format`);
+  }
+
+  const { platforms: _platforms, ...rest } = current;
+  let updated: ShiftCode = {
+    ...rest,
+    ...(normalized.platforms ? { platforms: normalized.platforms } : {}),
+    rewardType: normalized.rewardType,
+    reward: normalized.reward,
+    expiresAt: normalized.expiresAt,
+    updatedAt: nowIso,
+  };
+  updated = withMetadata(updated, applyMetadataInput(current.metadata, body.metadata));
+  if (body.status) {
+    updated = applyStatusTransition(updated, body.status, 'MANUAL_UPDATE', nowIso);
+  }
+
+  await saveCode(env, updated, actor);
+  return notifyCodeIfNeeded(env, updated, actor, now);
+}
+
+/**
+ * コードを論理削除する（削除済みならそのまま返す）。
+ */
+export async function softDeleteCode(
+  env: WorkerEnv,
+  current: ShiftCode,
+  actor: ChangeActor,
+  now = new Date(),
+): Promise<ShiftCode> {
+  if (current.deletedAt) {
+    return current;
+  }
+  const nowIso = toIsoString(now);
+  const deleted: ShiftCode = { ...current, deletedAt: nowIso, updatedAt: nowIso };
+  await saveCode(env, deleted, actor);
+  return deleted;
+}
+
+/**
+ * 論理削除したコードを復元する（削除されていなければそのまま返す）。
+ * 復元後は通知条件を満たせば通知する（削除中に Active になった未通知のコードなど）。
+ */
+export async function restoreCode(
+  env: WorkerEnv,
+  current: ShiftCode,
+  actor: ChangeActor,
+  now = new Date(),
+): Promise<ShiftCode> {
+  if (!current.deletedAt) {
+    return current;
+  }
+  const { deletedAt: _deletedAt, ...rest } = current;
+  const restored: ShiftCode = { ...rest, updatedAt: toIsoString(now) };
+  await saveCode(env, restored, actor);
+  return notifyCodeIfNeeded(env, restored, actor, now);
+}
@@ -0,0 +1,114 @@
+/**
+ * metrics.ts
+ *
+ * 監視実行ごとの `RunMetrics` 履歴を集計し、時系列 API 向けのサマリを組み立てます。
+ * - 日次（UTC）単位で新規コード数・エラー率・429/5xx 件数をまとめる
+ * - 期間全体の合計値も併せて返す
+ */
+import type { RunMetrics } from './models';
+
+/**
+ * 1 日分（UTC）の集計値。
+ */
+export interface MetricsDailyAggregate {
+  date: string;
+  runs: number;
+  newCodes: number;
+  notificationsSent: number;
+  sourcesScanned: number;
+  errors: number;
+  errorRate: number;
+  http429: number;
+  http5xx: number;
+}
+
+/**
+ * 期間全体の集計値と日次内訳。
+ */
+export interface MetricsHistorySummary {
+  since: string;
+  until: string;
+  runs: number;
+  newCodes: number;
+  notificationsSent: number;
+  errors: number;
+  errorRate: number;
+  http429: number;
+  http5xx: number;
+  daily: MetricsDailyAggregate[];
+}
+
+// エラー率 = エラー件数 / ソース取得試行数（試行なしは 0）
+function computeErrorRate(errors: number, sourcesScanned: number): number {
+  if (sourcesScanned <= 0) {
+    return 0;
+  }
+  return Math.round((errors / sourcesScanned) * 10000) / 10000;
+}
+
+/**
+ * メトリクス履歴を日次と期間全体で集計する。
+ */
+export function summarizeMetricsHistory(
+  entries: RunMetrics[],
+  since: string,
+  until: string,
+): MetricsHistorySummary {
+  const dailyMap = new Map<string, MetricsDailyAggregate>();
+
+  for (const entry of entries) {
+    const date = entry.lastRunAt.slice(0, 10);
+    const daily = dailyMap.get(date) ?? {
+      date,
+      runs: 0,
+      newCodes: 0,
+      notificationsSent: 0,
+      sourcesScanned: 0,
+      errors: 0,
+      errorRate: 0,
+      http429: 0,
+      http5xx: 0,
+    };
+    daily.runs += 1;
+    daily.newCodes += entry.newCodes;
+    daily.notificationsSent += entry.notificationsSent;
+    daily.sourcesScanned += entry.sourcesScanned.length;
+    daily.errors += entry.errors;
+    daily.http429 += entry.http429;
+    daily.http5xx += entry.http5xx;
+    dailyMap.set(date, daily);
+  }
+
+  const daily = Array.from(dailyMap.values())
+    .map((aggregate) => ({
+      ...aggregate,
+      errorRate: computeErrorRate(aggregate.errors, aggregate.sourcesScanned),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const totals = daily.reduce(
+    (sum, aggregate) => ({
+      runs: sum.runs + aggregate.runs,
+      newCodes: sum.newCodes + aggregate.newCodes,
+      notificationsSent: sum.notificationsSent + aggregate.notificationsSent,
+      sourcesScanned: sum.sourcesScanned + aggregate.sourcesScanned,
+      errors: sum.errors + aggregate.errors,
+      http429: sum.http429 + aggregate.http429,
+      http5xx: sum.http5xx + aggregate.http5xx,
+    }),
+    { runs: 0, newCodes: 0, notificationsSent: 0, sourcesScanned: 0, errors: 0, http429: 0, http5xx: 0 },
+  );
+
+  return {
+    since,
+    until,
+    runs: totals.runs,
+    newCodes: totals.newCodes,
+    notificationsSent: totals.notificationsSent,
+    errors: totals.errors,
+    errorRate: computeErrorRate(totals.errors, totals.sourcesScanned),
+    http429: totals.http429,
+    http5xx: totals.http5xx,
+    daily,
+  };
+}
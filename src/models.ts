@@ -5,7 +5,7 @@
  * 監視対象コード、ログ、メトリクス、ソース取得コンテキスト等の
  * 共通インターフェースを定義します。
  */
-import type { Mode, WorkerEnv } from './env';
+import type { Mode } from './env';
 
 /**
  * 収集対象のソース名称。
@@ -16,6 +16,49 @@ export type SourceName =
   | 'MEDIA_TRUSTED'
   | 'COMMUNITY_AUX';
 
+/**
+ * 対象タイトル（SHiFT コードを共有する Borderlands シリーズ）。
+ * - BL4: Borderlands 4
+ * - BL3: Borderlands 3
+ * - TTWL: Tiny Tina's Wonderlands
+ * - BL2: Borderlands 2
+ * - BLTPS: Borderlands: The Pre-Sequel
+ */
+export type GameId = 'BL4' | 'BL3' | 'TTWL' | 'BL2' | 'BLTPS';
+
+/**
+ * コードを引き換えられるプラットフォーム。
+ */
+export type Platform = 'STEAM' | 'EPIC' | 'PLAYSTATION' | 'XBOX' | 'SWITCH';
+
+/**
+ * 引き換え範囲（個別のプラットフォーム、または全プラットフォーム共通の UNIVERSAL）。
+ */
+export type PlatformScope = Platform | 'UNIVERSAL';
+
+/**
+ * 報酬の種別。
+ * - Other: 既知の種別に当たらない報酬（元の表記を参照）
+ * - Unknown: 報酬の記載なし
+ */
+export type RewardKind =
+  | 'GoldenKey'
+  | 'DiamondKey'
+  | 'SkeletonKey'
+  | 'VaultCard'
+  | 'Weapon'
+  | 'Cosmetic'
+  | 'Other'
+  | 'Unknown';
+
+/**
+ * 正規化した報酬（種別と数量。数量は記載がなければ null）。
+ */
+export interface Reward {
+  kind: RewardKind;
+  quantity: number | null;
+}
+
 /**
  * コードの状態。
  * - Active: 利用可能
@@ -24,62 +67,264 @@ export type SourceName =
  */
 export type CodeStatus = 'Active' | 'Expired' | 'Hold';
 
+/**
+ * 状態遷移の理由。
+ * - EXPIRES_AT_PASSED: 期限（expiresAt）を過ぎた
+ * - REMOVED_FROM_SOURCE_LISTING: ソースの有効コード一覧から消えた（期限切れと推定）
+ * - TRUST_PROMOTED: 確度が昇格閾値に達した
+ * - LOW_TRUST_ONLY: 低信頼ソースのみが報告している
+ * - MANUAL_UPDATE: API から運用者が変更した
+ * - SUBMISSION_APPROVED: 利用者の投稿を審査で承認した
+ */
+export type StatusTransitionReason =
+  | 'EXPIRES_AT_PASSED'
+  | 'REMOVED_FROM_SOURCE_LISTING'
+  | 'TRUST_PROMOTED'
+  | 'LOW_TRUST_ONLY'
+  | 'MANUAL_UPDATE'
+  | 'SUBMISSION_APPROVED';
+
+/**
+ * コード状態の遷移記録。
+ */
+export interface StatusTransition {
+  from: CodeStatus;
+  to: CodeStatus;
+  at: string;
+  reason: StatusTransitionReason;
+}
+
+/**
+ * コードを変更した主体。
+ * - RUN: 監視実行（id は実行 ID）
+ * - API_KEY: API からの操作（id は API キー ID）
+ * - SWEEPER: 期限切れ掃除
+ */
+export interface ChangeActor {
+  type: 'RUN' | 'API_KEY' | 'SWEEPER';
+  id?: string;
+}
+
+/**
+ * 項目 1 つ分の変更（`metadata` 配下は `metadata.url` のように項目ごとに記録）。
+ * 値がなかった側は null。
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * コードの変更履歴 1 件（保存のたびに記録。`updatedAt` のみの変化は記録しない）。
+ */
+export interface CodeChange {
+  id: string;
+  codeId: string;
+  at: string;
+  actor: ChangeActor;
+  type: 'CREATED' | 'UPDATED';
+  changes: FieldChange[];
+}
+
 /**
  * 正規化・保存された SHiFT コードのレコード。
  */
 export interface ShiftCode {
   id: string;
-  title: 'BL4';
+  title: GameId;                    // 対象タイトル
   codeText: string;                 // 元のコード表記
   normalizedCodeText: string;       // 比較用に正規化した表記
-  rewardType: string;               // 付与リワード種別（例: Golden Keys）
+  rewardType: string;               // 報酬の元の表記（例: 3 Golden Keys）
+  reward: Reward;                   // 元の表記から正規化した報酬
+  platforms?: PlatformScope[];      // 引き換え可能なプラットフォーム（記載がなければ未設定）
   expiresAt: string | null;         // 期限（ISO）
   firstSeenAt: string;              // 初出検出日時（ISO）
   status: CodeStatus;               // 現在の状態
   sources: SourceName[];            // 検出ソース一覧
+  confidence?: number;              // ソース信頼度から算出した確度（0〜1）
+  statusHistory?: StatusTransition[]; // 状態遷移の履歴
   hash: string;                     // 同一性判定用ハッシュ
   createdAt: string;                // 作成日時（ISO）
   updatedAt: string;                // 更新日時（ISO）
+  deletedAt?: string;               // 論理削除日時（ISO。削除済みは一覧・フィード・通知の対象外）
   metadata?: {
     url?: string;                   // 元記事/投稿などの参照URL
     notes?: string;                 // 任意メモ
     discoveredBy?: string;          // 発見者（ハンドル等）
-    notifiedAt?: string;            // 通知実施日時（ISO）
+    submissionId?: string;          // 利用者の投稿（`/submissions`）から承認したコードの投稿 ID
+    notifiedAt?: string;            // 通知実施日時（ISO。設定済みの全体の送信先すべてへ届いた時点）
+    channelNotifiedAt?: Partial<Record<NotificationDestination, string>>; // 全体の送信先ごとの通知実施日時（ISO）
+    subscriberNotifiedAt?: Record<string, string>; // 購読者 ID ごとの通知実施日時（ISO）
     isFallback?: boolean;           // サンプル/フォールバック由来か
+    lowTrust?: boolean;             // 低信頼ソースのみが報告しているか
   };
 }
 
+/**
+ * 投稿の審査状態。
+ */
+export type SubmissionStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+/**
+ * 利用者からのコード投稿（審査キュー）。
+ * - candidate: 投稿内容を収集時と同じ処理で正規化したコード（Hold。承認までは保存済みコードに含めない）
+ * - codeId: 承認で保存したコード（審査中に収集・登録済みになっていた場合は既存のコード）の ID
+ */
+export interface Submission {
+  id: string;
+  status: SubmissionStatus;
+  candidate: ShiftCode;
+  submittedBy?: string;             // 投稿者（任意のハンドル。承認時に discoveredBy として記録）
+  clientHash?: string;              // 接続元 IP のハッシュ（接続元ごとの審査待ち件数の上限に使う。投稿者への応答には含めない）
+  submittedAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string;              // 審査した API キー ID
+  rejectReason?: string;
+  codeId?: string;
+}
+
 /**
  * 解析結果種別。
  */
 export type ParseResult = 'SUCCESS' | 'FAILED' | 'SKIPPED_DUPLICATE';
 
+/**
+ * 検出ログのエラー分類。
+ * - HTTP_*: ソース取得時の HTTP 応答・通信エラー
+ * - PARSE_*: 取得したレスポンスの解析エラー
+ * - VALIDATION_*: 候補コードの形式検証エラー
+ * - UNEXPECTED_ERROR: 上記に当てはまらない例外
+ */
+export type DetectionErrorCode =
+  | 'HTTP_429'
+  | 'HTTP_4XX'
+  | 'HTTP_5XX'
+  | 'HTTP_NETWORK_ERROR'
+  | 'PARSE_INVALID_JSON'
+  | 'PARSE_UNEXPECTED_FORMAT'
+  | 'VALIDATION_MISSING_CODE'
+  | 'VALIDATION_INVALID_FORMAT'
+  | 'UNEXPECTED_ERROR';
+
 /**
  * 収集・解析フェーズでの検出ログ。
+ * - codeId なし: ソース単位（1 実行 1 ソースにつき 1 件）のログ
+ * - codeId あり/FAILED: 候補コード単位のログ
  */
 export interface DetectionLog {
   id: string;
   source: SourceName;
+  game?: GameId;                    // 取得対象のタイトル（未設定は BL4）
   fetchedAt: string;
   parseResult: ParseResult;
+  runId?: string;
   codeId?: string;
-  errorCode?: string;
+  errorCode?: DetectionErrorCode;
   notes?: string;
 }
 
 /**
- * 通知送信の履歴ログ。
+ * 通知の送信先チャネル。
+ */
+export type NotificationDestination =
+  | 'DISCORD_WEBHOOK'
+  | 'SLACK_WEBHOOK'
+  | 'TELEGRAM_BOT'
+  | 'GENERIC_WEBHOOK';
+
+/**
+ * 通知送信の履歴ログ（送信先ごとに 1 件）。
  */
 export interface NotificationLog {
   id: string;
   codeId: string;
   status: 'SENT' | 'SKIPPED';
   createdAt: string;
-  destination: 'DISCORD_WEBHOOK';
+  destination: NotificationDestination;
+  digestId?: string;                // ダイジェスト送信時のまとめ単位 ID
+  subscriberId?: string;            // 購読者宛ての送信時の購読者 ID
   responseStatus?: number;
   error?: string;
 }
 
+/**
+ * 購読者ごとの通知条件。未指定の条件は絞り込みに使わない。
+ * - rewardTypes: 報酬の種別 ID または元の表記の部分一致（大文字小文字を区別しない、いずれかに一致）
+ * - minConfidence: 確度の下限（0〜1）
+ * - sources: 検出ソースのいずれかを含む
+ * - includeHold: Hold のコードも通知する
+ * - games: 対象タイトルのいずれかに一致
+ * - platforms: いずれかのプラットフォームで使える（記載なし・全プラットフォームのコードは常に一致）
+ */
+export interface SubscriberFilters {
+  games?: GameId[];
+  platforms?: Platform[];
+  rewardTypes?: string[];
+  minConfidence?: number;
+  sources?: SourceName[];
+  includeHold: boolean;
+}
+
+/**
+ * 通知の購読者（コミュニティサーバー等）。送信先 URL と通知条件を個別に持つ。
+ */
+export interface Subscriber {
+  id: string;
+  name: string;
+  destination: NotificationDestination;
+  url: string;
+  filters: SubscriberFilters;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * ダイジェストの種別。
+ * - RUN: 1 回の監視実行で通知対象となったコードのまとめ
+ * - DAILY / WEEKLY: 期間内に有効化・期限切れとなったコードの定期サマリ
+ */
+export type DigestKind = 'RUN' | 'DAILY' | 'WEEKLY';
+
+/**
+ * 定期ダイジェストの周期。
+ */
+export type DigestPeriod = Exclude<DigestKind, 'RUN'>;
+
+/**
+ * ダイジェスト内のセクション種別（新規 / 有効化 / 期限切れ）。
+ */
+export type DigestSectionKey = 'new' | 'activated' | 'expired';
+
+/**
+ * 複数コードを 1 通にまとめた通知。
+ */
+export interface NotificationDigest {
+  id: string;
+  kind: DigestKind;
+  periodStart?: string;
+  periodEnd?: string;
+  sections: Array<{ key: DigestSectionKey; codes: ShiftCode[] }>;
+}
+
+/**
+ * 定期ダイジェストの送信状態（同一期間の二重送信防止用）。
+ */
+export interface DigestState {
+  period: DigestPeriod;
+  lastPeriodKey: string;
+  sentAt: string;
+}
+
+/**
+ * 監視対象の 1 件（タイトル × ソース）。
+ */
+export interface SourceTarget {
+  game: GameId;
+  source: SourceName;
+}
+
 /**
  * 1 回の監視実行（バッチ）のサマリメトリクス。
  */
@@ -87,7 +332,7 @@ export interface RunMetrics {
   runId: string;
   lastRunAt: string;
   scheduleDelaySeconds: number;
-  sourcesScanned: SourceName[];
+  sourcesScanned: SourceTarget[];
   totalCodes: number;
   newCodes: number;
   duplicatesSkipped: number;
@@ -115,39 +360,168 @@ export interface MonitorResult {
 export interface SourceFetchContext {
   mode: Mode;
   backfillDays: number;
+  retry?: RetryPolicy;
+}
+
+/**
+ * ソース取得時のリトライ方針。
+ * - maxRetries: 初回を除く再試行回数
+ * - baseDelayMs: 指数バックオフの基準ウェイト
+ * - jitterPct: ウェイトに加える揺らぎ（±%）
+ * - maxRetryAfterMs: Retry-After で待機する上限（超える場合は再試行せずに打ち切る）
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  jitterPct: number;
+  maxRetryAfterMs: number;
+}
+
+/**
+ * サーキットブレーカーの状態。
+ * - CLOSED: 通常運転
+ * - OPEN: 連続失敗によりクールダウン中（取得しない）
+ * - HALF_OPEN: クールダウン明けの試行中
+ */
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+/**
+ * ソースごとのサーキットブレーカー状態（R2 に永続化）。
+ */
+export interface CircuitBreakerRecord {
+  source: SourceName;
+  game?: GameId;                    // 未設定は BL4
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  openUntil: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  lastErrorCode?: DetectionErrorCode;
+}
+
+/**
+ * 監視実行の起動元（CRON: 定期実行、MANUAL: API からの手動実行）。
+ */
+export type RunTrigger = 'CRON' | 'MANUAL';
+
+/**
+ * 監視実行の排他リース（R2 に 1 件だけ保存し、条件付き書き込みで取得する）。
+ * - expiresAt を過ぎたリースは、実行が異常終了したものとみなして次の実行が引き継ぐ
+ * - releasedAt: 正常終了時に解放した日時（解放済みのリースは期限前でも取得できる）
+ */
+export interface RunLease {
+  runId: string;
+  trigger: RunTrigger;
+  acquiredAt: string;
+  expiresAt: string;
+  releasedAt?: string;
 }
 
 /**
  * 収集時点の生コード（正規化前・保存前の形）。
+ * アダプターの parse 段階が返し、normalize 段階で `ShiftCode` に変換される。
  */
 export interface CollectedCode {
   code: string;
   rewardType?: string;
+  platforms?: PlatformScope[];
   expiresAt?: string | null;
   firstSeenAt?: string;
-  status?: CodeStatus;
+  status?: string;                  // 正規化前の状態表記（例: active / Hold）
   url?: string;
   notes?: string;
   isFallback?: boolean;
 }
 
 /**
- * 単一ソースからの収集結果。
+ * 形式検証で弾かれた候補コード。
+ */
+export interface RejectedCandidate {
+  code?: string;
+  errorCode: DetectionErrorCode;
+}
+
+/**
+ * アダプターの parse 段階の結果。
+ * - listing: 有効コード一覧（表など）として網羅的に解析できたか
+ */
+export interface SourceParseResult {
+  drafts: CollectedCode[];
+  rejected: RejectedCandidate[];
+  notes?: string;
+  listing?: boolean;
+}
+
+/**
+ * アダプターの normalize 段階の結果。
+ */
+export interface SourceNormalizeResult {
+  codes: ShiftCode[];
+  rejected: RejectedCandidate[];
+}
+
+/**
+ * 単一ソースからの収集結果（fetch → parse → normalize の通し結果）。
+ * - listingHashes: 有効コード一覧を解析できた場合の掲載コード hash 一覧
  */
 export interface SourceFetchResult {
   source: SourceName;
-  codes: CollectedCode[];
-  http429: number;
-  http5xx: number;
+  game: GameId;
+  url: string | null;
+  codes: ShiftCode[];
+  rejected: RejectedCandidate[];
+  notes?: string;
+  listingHashes?: string[];
+}
+
+/**
+ * ソースアダプター。新しいサイトを追加する場合はこれを 1 つ実装してレジストリに登録する。
+ * アダプターはタイトルごとに生成され、取得先 URL とコード形式はタイトルの設定に従う。
+ * - fetch: HTTP 取得（失敗時は SourceFetchError を投げる）
+ * - parse: レスポンスから候補コードを抽出
+ * - normalize: 候補コードを検証し `ShiftCode` に変換
+ */
+export interface SourceAdapter<TPayload = unknown> {
+  id: SourceName;
+  game: GameId;
+  sampleCodes: CollectedCode[];
+  fetch(url: string, context: SourceFetchContext): Promise<TPayload>;
+  parse(payload: TPayload, url: string): SourceParseResult;
+  normalize(drafts: CollectedCode[], collectedAt: Date): Promise<SourceNormalizeResult>;
 }
 
 /**
- * ソース収集関数のシグネチャ。
+ * ソースが掲載していた有効コード一覧のスナップショット。
+ * 一覧から消えたコードを期限切れと推定するために利用。
  */
-export type SourceFetcher = (
-  env: WorkerEnv,
-  context: SourceFetchContext
-) => Promise<SourceFetchResult>;
+export interface SourceListingSnapshot {
+  source: SourceName;
+  game?: GameId;                    // 未設定は BL4
+  fetchedAt: string;
+  hashes: string[];
+}
+
+/**
+ * API キーのスコープ（read < operator < admin）。
+ * - read: ログ・メトリクス等の参照
+ * - operator: 監視実行・通知再送・信頼度や購読者の変更
+ * - admin: 管理系ルートと API キーの発行・失効
+ */
+export type ApiKeyScope = 'read' | 'operator' | 'admin';
+
+/**
+ * 保存する API キー（平文は保存せず SHA-256 ハッシュのみ）。
+ */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  scope: ApiKeyScope;
+  hash: string;
+  keyPrefix: string;                // 識別用に表示するキー先頭部分
+  createdAt: string;
+  revokedAt: string | null;
+}
 
 /**
  * ソース信頼度（0〜1）。重み付け等に利用。
@@ -4,13 +4,50 @@
  * 各ソースからSHiFTコードを収集し、保存と通知を行う監視処理の中核。
  * - 新規コードは保存し、通知対象に積む
  * - 既存コードはメタデータやソース一覧をマージして更新
- * - 通知送信後は `notifiedAt` を反映
+ * - 通知送信後は `notifiedAt`（送信先ごとは `channelNotifiedAt`、購読者宛ては `subscriberNotifiedAt`）を反映。
+ *   一部の送信先にしか届かなかったコードは `notifiedAt` を付けず、次に検出した実行で届いていない送信先へ再送する
+ * - 実行結果は `RunMetrics` として最新値と履歴の両方に保存
+ * - ソース単位・候補コード単位で `DetectionLog` を記録
+ * - 監視対象タイトル（`GAMES_ENABLED`）ごとに各ソースを取得する
+ * - ソースごとのポーリング間隔に達していないソース、サーキットブレーカーが開いているソースはスキップ
+ * - ソース信頼度から確度を算出し、Hold→Active の昇格や低信頼コードの保留化を適用（今回報告のあったコードのみ）
+ * - 既存コードの照合はハッシュインデックスで行い、全件は読み込まない（総件数も保持している件数を読むだけで、実行コストは収集件数に比例）
+ * - 実行は R2 のリースで排他し、Cron と手動実行が同時に走らないようにする（`lease.ts`）
  */
-import { listCodes, getCodeById, saveCode } from './storage';
-import { dispatchNotifications } from './notifications';
-import { ensureUnique, hashCode, toIsoString } from './utils';
+import {
+  appendMetricsHistory,
+  countCodes,
+  listCodesByStatuses,
+  getCodeByHash,
+  getCodeById,
+  saveCode,
+  saveDetectionLog,
+  saveMetrics,
+  saveSourceListingSnapshot,
+  setLastSourceFetchTimestamp,
+} from './storage';
+import { applyDispatchRecords, dispatchNotifications, isChannelGame } from './notifications';
+import { listEnabledAdapters, resolveSourceUrl, runSourceAdapter, SourceFetchError } from './sources';
+import { computeNextRunAt, planSourceSchedule } from './scheduler';
+import { isCircuitOpen, loadCircuitBreaker, recordSourceFailure, recordSourceSuccess } from './breaker';
+import type { SourceScheduleEntry } from './scheduler';
+import { applyTrustPolicy, loadTrustScores, resolveTrustPolicy } from './trust';
+import { mergePlatforms } from './platforms';
+import { acquireRunLease, releaseRunLease } from './lease';
+import type { AcquiredRunLease } from './lease';
+import { parseNumber, toIsoString } from './utils';
 import type { WorkerEnv } from './env';
-import type { ShiftCode, CodeStatus, SourceName } from './models';
+import type {
+  ShiftCode,
+  ChangeActor,
+  CodeStatus,
+  DetectionLog,
+  GameId,
+  RunMetrics,
+  RunTrigger,
+  SourceName,
+  SourceTarget,
+} from './models';
 
 export interface MonitorResult {
   runId: string;
@@ -22,121 +59,283 @@ export interface MonitorResult {
   errors: number;
   http429: number;
   http5xx: number;
-  sourcesScanned: string[];
+  sourcesScanned: SourceTarget[];
+  sourcesSkipped: SourceTarget[];
+  sourcesBlocked: SourceTarget[];
+  schedule: SourceScheduleEntry[];
   scheduleDelaySeconds: number;
 }
 
-export async function runMonitor(env: WorkerEnv, now = new Date()): Promise<MonitorResult> {
-  // 実行IDとタイムスタンプを採番
+/**
+ * 監視実行のオプション。
+ * - force: ポーリング間隔を無視して全ソースを取得（手動実行用）
+ * - trigger: 起動元（リースに記録。既定は MANUAL）
+ * - lease: 取得済みのリース（Cron で後続の処理と共有する。指定時は取得・解放を呼び出し側に任せる）
+ */
+export interface RunMonitorOptions {
+  force?: boolean;
+  trigger?: RunTrigger;
+  lease?: AcquiredRunLease;
+}
+
+// タイトル × ソースの識別キー（スケジュール判定の照合用）
+function sourceTargetKey(game: GameId, source: SourceName): string {
+  return `${game}:${source}`;
+}
+
+/**
+ * 監視処理を 1 回実行する。
+ * 実行中はリースを保持し、他の実行がリースを保持していれば `RunInProgressError` を投げる。
+ * `options.lease` を渡した場合はそのリースの実行 ID で実行し、リースは解放しない。
+ */
+export async function runMonitor(
+  env: WorkerEnv,
+  now = new Date(),
+  options: RunMonitorOptions = {},
+): Promise<MonitorResult> {
+  if (options.lease) {
+    return executeMonitorRun(env, options.lease.lease.runId, now, options);
+  }
+  // 実行IDを採番し、リースを取得してから開始
   const runId = crypto.randomUUID();
+  const lease = await acquireRunLease(env, runId, options.trigger ?? 'MANUAL');
+  try {
+    return await executeMonitorRun(env, runId, now, options);
+  } finally {
+    await releaseRunLease(env, lease);
+  }
+}
+
+// 監視処理の本体（リース取得後に呼び出す）
+async function executeMonitorRun(
+  env: WorkerEnv,
+  runId: string,
+  now: Date,
+  options: RunMonitorOptions,
+): Promise<MonitorResult> {
   const runAt = now.toISOString();
+  // 変更履歴に記録する変更主体
+  const actor: ChangeActor = { type: 'RUN', id: runId };
   const startTime = now.getTime();
 
   console.log(`Starting monitor run ${runId} at ${runAt}`);
 
-  // 既存コードの全件を読み込み（重複判定・更新に利用）
-  const allCodes = await listCodes(env);
+  // 今回の実行で読み込み・保存したコード（hash → 最新のレコード）
+  const runCodes = new Map<string, ShiftCode>();
   const newCodes: ShiftCode[] = [];
-  const codesForNotification: ShiftCode[] = [];
+  // 同一実行内で同じコードを二重通知しないよう ID で管理
+  const codesForNotification = new Map<string, ShiftCode>();
+  // Hold のコードは includeHold の購読者にのみ送る
+  const holdCodesForSubscribers = new Map<string, ShiftCode>();
+
+  // ソース信頼度と昇格・保留化の閾値
+  const trustScores = await loadTrustScores(env);
+  const trustPolicy = resolveTrustPolicy(env);
+
+  // ホワイトリストで許可され、取得先 URL が解決できるソースのみを対象にする
+  const adapters = listEnabledAdapters(env).filter((adapter) => resolveSourceUrl(env, adapter));
+  const fetchContext = {
+    mode: env.MODE,
+    backfillDays: parseNumber(env.BACKFILL_DAYS, 14),
+  };
 
-  // 環境変数で有効化されたソースのみを対象にする
-  const sources = [
-    { name: 'OFFICIAL_SITE', url: env.SOURCE_OFFICIAL_SITE_URL },
-    { name: 'OFFICIAL_X', url: env.SOURCE_OFFICIAL_X_URL },
-    { name: 'MEDIA_TRUSTED', url: env.SOURCE_MEDIA_TRUSTED_URL },
-    { name: 'COMMUNITY_AUX', url: env.SOURCE_COMMUNITY_AUX_URL },
-  ].filter((source) => source.url);
+  // ポーリング間隔に達したソースのみ取得する
+  const schedule = await planSourceSchedule(env, adapters, now);
+  const dueEntries = schedule.filter((entry) => options.force || entry.due);
+  const dueSources = new Set(dueEntries.map((entry) => sourceTargetKey(entry.game, entry.source)));
+  const skippedEntries = schedule.filter((entry) => !dueSources.has(sourceTargetKey(entry.game, entry.source)));
+  const sourcesSkipped: SourceTarget[] = skippedEntries.map(({ game, source }) => ({ game, source }));
+  if (skippedEntries.length) {
+    console.log(
+      `Skipping sources not yet due: ${skippedEntries.map((entry) => `${entry.game}/${entry.source}`).join(', ')}`,
+    );
+  }
 
-  const sourcesScanned: string[] = [];
+  const sourcesScanned: SourceTarget[] = [];
+  const sourcesBlocked: SourceTarget[] = [];
   let errors = 0;
   let http429 = 0;
   let http5xx = 0;
+  let duplicatesSkipped = 0;
+
+  // 検出ログの共通項目を埋めて保存
+  const recordDetection = (log: Omit<DetectionLog, 'id' | 'runId'>) =>
+    saveDetectionLog(env, { id: crypto.randomUUID(), runId, ...log });
 
   // 各ソースを順次収集
-  for (const source of sources) {
+  for (const adapter of adapters) {
+    const sourceName = adapter.id;
+    const game = adapter.game;
+    const label = `${game}/${sourceName}`;
+    if (!dueSources.has(sourceTargetKey(game, sourceName))) {
+      continue;
+    }
+
+    // サーキットブレーカーが開いている間は取得しない
+    const breaker = await loadCircuitBreaker(env, sourceName, now, game);
+    if (isCircuitOpen(breaker)) {
+      console.log(`Circuit open for ${label} until ${breaker.openUntil}, skipping`);
+      sourcesBlocked.push({ game, source: sourceName });
+      continue;
+    }
+
     try {
-      console.log(`Fetching from ${source.name}: ${source.url}`);
-      sourcesScanned.push(source.name);
+      console.log(`Fetching from ${label}: ${resolveSourceUrl(env, adapter)}`);
+      sourcesScanned.push({ game, source: sourceName });
+
+      const { codes, rejected, notes, listingHashes } = await runSourceAdapter(env, adapter, fetchContext);
+      await recordSourceSuccess(env, breaker, now);
+      const fetchedAt = toIsoString(new Date());
+      console.log(`Fetched ${codes.length} codes from ${label}`);
+
+      // 掲載一覧を保存（一覧から消えたコードの期限切れ推定に利用）
+      if (listingHashes) {
+        await saveSourceListingSnapshot(env, {
+          source: sourceName,
+          game,
+          fetchedAt,
+          hashes: listingHashes,
+        });
+      }
 
-      const fetchContext = {
-        source: source.name as any,
-        url: source.url!,
-        runId,
-        runAt,
-      };
+      await recordDetection({
+        source: sourceName,
+        game,
+        fetchedAt,
+        parseResult: 'SUCCESS',
+        notes: [`accepted=${codes.length} rejected=${rejected.length}`, notes].filter(Boolean).join(' '),
+      });
 
-      const codes = await fetchFromSource(env, fetchContext);
-      console.log(`Fetched ${codes.length} codes from ${source.name}`);
+      // 形式検証で弾かれた候補もログに残す
+      for (const candidate of rejected) {
+        await recordDetection({
+          source: sourceName,
+          game,
+          fetchedAt,
+          parseResult: 'FAILED',
+          errorCode: candidate.errorCode,
+          notes: candidate.code ? `candidate=${candidate.code}` : undefined,
+        });
+      }
 
-      for (const code of codes) {
-        const existing = allCodes.find((c) => c.hash === code.hash);
+      for (const collected of codes) {
+        const existing = runCodes.get(collected.hash) ?? (await getCodeByHash(env, collected.hash));
 
         if (!existing) {
-          // 新規コード: 保存して通知候補へ
-          await saveCode(env, code);
-          allCodes.push(code);
+          // 新規コード: 確度を付与して保存し、通知条件を満たせば通知候補へ
+          const code = applyTrustPolicy(collected, trustScores, trustPolicy, runAt);
+          await saveCode(env, code, actor);
+          runCodes.set(code.hash, code);
           newCodes.push(code);
-          codesForNotification.push(code);
+          if (shouldNotify(code, now)) {
+            codesForNotification.set(code.id, code);
+          } else if (isHoldCandidate(code, now)) {
+            holdCodesForSubscribers.set(code.id, code);
+          }
+          await recordDetection({
+            source: sourceName,
+            game,
+            fetchedAt,
+            parseResult: 'SUCCESS',
+            codeId: code.id,
+            notes: `candidate=${code.normalizedCodeText}`,
+          });
           console.log(`New code saved: ${code.id} (${code.normalizedCodeText})`);
         } else {
-          // 既存コード: ソース統合・メタデータマージ・更新時刻反映
-          const updated = {
-            ...existing,
-            sources: [...new Set([...existing.sources, ...code.sources])],
-            updatedAt: code.updatedAt ?? toIsoString(now),
-            metadata: {
-              ...existing.metadata,
-              ...code.metadata,
+          // 既存コード: ソース統合・メタデータマージ・更新時刻反映・確度の再計算
+          const updated = applyTrustPolicy(
+            {
+              ...existing,
+              sources: [...new Set([...existing.sources, ...collected.sources])],
+              platforms: mergePlatforms(existing.platforms, collected.platforms),
+              updatedAt: collected.updatedAt ?? toIsoString(now),
+              metadata: {
+                ...existing.metadata,
+                ...collected.metadata,
+              },
             },
-          };
-
-          await saveCode(env, updated);
-          const index = allCodes.findIndex((c) => c.hash === code.hash);
-          if (index >= 0) {
-            allCodes[index] = updated;
+            trustScores,
+            trustPolicy,
+            runAt,
+          );
+
+          await saveCode(env, updated, actor);
+          runCodes.set(updated.hash, updated);
+
+          // `NOTIFICATION_GAMES` の対象外のタイトルは `notifiedAt` が付かないため、Active になった実行でのみ通知候補に積む
+          // （購読者へはその時点で送り、以降の実行では再び積まない）
+          const eligible = existing.status !== 'Active' || isChannelGame(env, updated);
+          if (!existing.metadata?.notifiedAt && eligible && shouldNotify(updated, now)) {
+            codesForNotification.set(updated.id, updated);
+          } else if (isHoldCandidate(updated, now)) {
+            holdCodesForSubscribers.set(updated.id, updated);
           }
 
-          if (!existing.metadata?.notifiedAt && shouldNotify(updated, now)) {
-            codesForNotification.push(updated);
-          }
-
-          console.log(`Updated existing code: ${code.id} (${code.normalizedCodeText})`);
+          duplicatesSkipped++;
+          await recordDetection({
+            source: sourceName,
+            game,
+            fetchedAt,
+            parseResult: 'SKIPPED_DUPLICATE',
+            codeId: existing.id,
+            notes: `candidate=${collected.normalizedCodeText}`,
+          });
+
+          console.log(`Updated existing code: ${existing.id} (${collected.normalizedCodeText})`);
         }
       }
     } catch (error) {
-      console.error(`Error fetching from ${source.name}:`, error);
+      console.error(`Error fetching from ${label}:`, error);
       errors++;
 
-      if (error instanceof Error) {
-        // 簡易的なHTTP分類（429/5xx）
-        if (error.message.includes('429')) {
-          http429++;
-        } else if (error.message.includes('5')) {
-          http5xx++;
-        }
+      const errorCode = error instanceof SourceFetchError ? error.errorCode : 'UNEXPECTED_ERROR';
+      if (errorCode === 'HTTP_429') {
+        http429++;
+      } else if (errorCode === 'HTTP_5XX') {
+        http5xx++;
+      }
+
+      await recordDetection({
+        source: sourceName,
+        game,
+        fetchedAt: toIsoString(new Date()),
+        parseResult: 'FAILED',
+        errorCode,
+        notes: error instanceof Error ? error.message : String(error),
+      });
+
+      // 取得・解析の失敗のみブレーカーに計上（保存処理などの内部エラーは除く）
+      if (error instanceof SourceFetchError) {
+        await recordSourceFailure(env, breaker, errorCode, now, error.retryAfterMs);
       }
     }
+
+    // 成否にかかわらず取得時刻を記録し、次回実行時刻を更新（失敗時の連打を防ぐ）
+    await setLastSourceFetchTimestamp(env, sourceName, runAt, game);
+    const entry = schedule.find((item) => item.source === sourceName && item.game === game);
+    if (entry) {
+      entry.lastFetchedAt = runAt;
+      entry.nextRunAt = computeNextRunAt(env, entry.source, entry.game, runAt, now);
+      entry.due = false;
+    }
   }
 
-  // 通知をまとめてディスパッチ
-  const { sent: notificationsSent, sentRecords } = await dispatchNotifications(env, codesForNotification);
-
-  // 送信成功したコードに `notifiedAt` を反映
-  for (const { codeId, sentAt } of sentRecords) {
-    const code = allCodes.find((c) => c.id === codeId);
-    if (code) {
-      const updated = {
-        ...code,
-        metadata: {
-          ...code.metadata,
-          notifiedAt: sentAt,
-        },
-      };
-      await saveCode(env, updated);
-      const index = allCodes.findIndex((c) => c.id === codeId);
-      if (index >= 0) {
-        allCodes[index] = updated;
-      }
+  // 今回報告のなかったコードへの信頼度の変更の反映は、信頼度の更新時に行う（`rescoreCodesForSource`）
+
+  // 通知をまとめてディスパッチ（全体の送信先と条件に一致する購読者へ）
+  const dispatchResult = await dispatchNotifications(
+    env,
+    Array.from(codesForNotification.values()),
+    Array.from(holdCodesForSubscribers.values()),
+  );
+  const notificationsSent = dispatchResult.sent;
+
+  // 送信成功したコードに `notifiedAt` / `channelNotifiedAt` / `subscriberNotifiedAt` を反映（通知候補は今回読み込んだコードに限られる）
+  for (const code of runCodes.values()) {
+    const updated = applyDispatchRecords(code, dispatchResult);
+    if (updated !== code) {
+      await saveCode(env, updated, actor);
+      runCodes.set(updated.hash, updated);
     }
   }
 
@@ -146,17 +345,37 @@ export async function runMonitor(env: WorkerEnv, now = new Date()): Promise<Moni
   const result: MonitorResult = {
     runId,
     runAt,
-    totalCodes: allCodes.length,
+    totalCodes: await countCodes(env),
     newCodes: newCodes.length,
-    duplicatesSkipped: allCodes.length - newCodes.length, // 単純差分で重複スキップ数の概算
+    duplicatesSkipped,
     notificationsSent,
     errors,
     http429,
     http5xx,
     sourcesScanned,
+    sourcesSkipped,
+    sourcesBlocked,
+    schedule,
     scheduleDelaySeconds,
   };
 
+  // 最新メトリクスと履歴を保存（/metrics, /health, /metrics/history 用）
+  const metrics: RunMetrics = {
+    runId,
+    lastRunAt: runAt,
+    scheduleDelaySeconds,
+    sourcesScanned,
+    totalCodes: result.totalCodes,
+    newCodes: result.newCodes,
+    duplicatesSkipped: result.duplicatesSkipped,
+    notificationsSent,
+    errors,
+    http429,
+    http5xx,
+  };
+  await saveMetrics(env, metrics);
+  await appendMetricsHistory(env, metrics);
+
   console.log(`Monitor run ${runId} completed:`, result);
   return result;
 }
@@ -168,10 +387,19 @@ export async function runMonitor(env: WorkerEnv, now = new Date()): Promise<Moni
  * - 期限切れは通知しない
  */
 function shouldNotify(code: ShiftCode, now: Date): boolean {
-  if (code.metadata?.isFallback) {
-    return false;
-  }
-  if (code.status !== 'Active') {
+  return code.status === 'Active' && isDeliverable(code, now);
+}
+
+/**
+ * 購読者（includeHold）向けの Hold コード候補か。
+ */
+function isHoldCandidate(code: ShiftCode, now: Date): boolean {
+  return code.status === 'Hold' && isDeliverable(code, now);
+}
+
+// フォールバック由来・期限切れ・論理削除済みでないか
+function isDeliverable(code: ShiftCode, now: Date): boolean {
+  if (code.metadata?.isFallback || code.deletedAt) {
     return false;
   }
   if (code.expiresAt) {
@@ -183,360 +411,30 @@ function shouldNotify(code: ShiftCode, now: Date): boolean {
   return true;
 }
 
-async function fetchFromSource(
-  env: WorkerEnv,
-  context: { source: string; url: string; runId: string; runAt: string },
-): Promise<ShiftCode[]> {
-  const { source, url } = context;
-  const sourceName = source as SourceName;
-
-  switch (sourceName) {
-    case 'OFFICIAL_SITE':
-    case 'OFFICIAL_X':
-    case 'COMMUNITY_AUX':
-      // JSON配列 or { codes: [...] } を期待
-      return fetchJsonFeed(env, url, sourceName);
-    case 'MEDIA_TRUSTED':
-      // PC Gamer の記事HTMLをパース
-      return fetchPcGamerShiftCodes(env, url, sourceName);
-    default:
-      throw new Error(`Unknown source: ${source}`);
-  }
-}
-const CODE_TITLE = 'BL4';
-const SHIFT_CODE_PATTERN = /^[A-Z0-9]{5}(?:-[A-Z0-9]{5}){4}$/;
-const SHIFT_CODE_FINDER = /[A-Z0-9]{5}(?:-[A-Z0-9]{5}){4}/g;
-const STATUS_LOOKUP: Record<string, CodeStatus> = {
-  active: 'Active',
-  expired: 'Expired',
-  hold: 'Hold',
-};
-
-interface ShiftCodeDraft {
-  code: string;
-  rewardType?: string;
-  status?: string | CodeStatus;
-  expiresAt?: string | null;
-  firstSeenAt?: string;
-  url?: string;
-  notes?: string;
-  isFallback?: boolean;
-}
-
 /**
- * JSONフィードを取得してドラフト配列へ正規化。
+ * 監視実行を経ずに登録・変更したコード（API からの手動操作）を、監視実行と同じ条件で通知する。
+ * - 未通知の Active は全体の送信先と購読者へ、Hold は includeHold の購読者へ送る
+ * - 送信結果を反映したレコードを保存して返す（通知対象外ならそのまま返す）
  */
-async function fetchJsonFeed(env: WorkerEnv, url: string, sourceName: SourceName): Promise<ShiftCode[]> {
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': 'Borderlands4-SHiFT-Monitor/1.0',
-      Accept: 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-  }
-
-  const payload = await response.json();
-  const entriesRaw: unknown[] = Array.isArray(payload)
-    ? (payload as unknown[])
-    : Array.isArray((payload as Record<string, unknown>)?.codes)
-    ? ((payload as Record<string, unknown>).codes as unknown[])
-    : [];
-
-  if (!entriesRaw.length) {
-    return [];
-  }
-
-  const entries = entriesRaw;
-  const collectedAt = new Date();
-  const drafts: ShiftCodeDraft[] = [];
-
-  for (const rawEntry of entries) {
-    if (!rawEntry || typeof rawEntry !== 'object') {
-      continue;
-    }
-    const record = rawEntry as Record<string, unknown>;
-    const code = pickString(record, ['code', 'code_text', 'shiftCode', 'shift_code']);
-    if (!code) {
-      continue;
-    }
-
-    drafts.push({
-      code,
-      rewardType: pickString(record, ['rewardType', 'reward_type', 'reward', 'description']),
-      status: pickString(record, ['status']),
-      expiresAt: pickString(record, ['expiresAt', 'expires_at', 'expires']),
-      firstSeenAt: pickString(record, ['firstSeenAt', 'first_seen_at']),
-      url: pickString(record, ['url']) ?? url,
-      notes: pickString(record, ['notes']),
-      isFallback: false,
-    });
-  }
-
-  return draftsToShiftCodes(sourceName, drafts, collectedAt);
-}
-
-/**
- * PC Gamer のBL4シフトコード記事をスクレイピングし、テーブル/テキストからコード候補を抽出。
- */
-async function fetchPcGamerShiftCodes(env: WorkerEnv, url: string, sourceName: SourceName): Promise<ShiftCode[]> {
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': 'Borderlands4-SHiFT-Monitor/1.0',
-      Accept: 'text/html,application/xhtml+xml',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-  }
-
-  const html = await response.text();
-  const collectedAt = new Date();
-  const drafts: ShiftCodeDraft[] = [];
-
-  const tableMatch = html.match(/<caption[^>]*>\s*Active Borderlands 4 Shift codes\s*<\/caption>[\s\S]*?<\/table>/i);
-  if (tableMatch) {
-    const rowRegex = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
-    let rowMatch: RegExpExecArray | null;
-
-    while ((rowMatch = rowRegex.exec(tableMatch[0])) !== null) {
-      const rowHtml = rowMatch[1];
-      if (/table__head__row/i.test(rowHtml)) {
-        continue;
-      }
-
-      const cells = [...rowHtml.matchAll(/<td[^>]*>([\s\S]*?)<\/td>/gi)].map((match) => stripHtml(match[1]));
-      if (cells.length < 3) {
-        continue;
-      }
-
-      const expiryText = cells[0];
-      const rewardText = cells[1];
-      const codeCellText = cells[2];
-      const candidates = codeCellText.match(SHIFT_CODE_FINDER);
-      if (!candidates) {
-        continue;
-      }
-
-      for (const candidate of candidates) {
-        drafts.push({
-          code: candidate,
-          rewardType: rewardText,
-          status: 'Active',
-          expiresAt: expiryText,
-          url,
-          notes: buildNotes(expiryText, rewardText),
-          isFallback: false,
-        });
-      }
-    }
-  }
-
-  if (!drafts.length) {
-    const fallbackRegex = new RegExp(SHIFT_CODE_PATTERN.source, 'gi');
-    let match: RegExpExecArray | null;
-    while ((match = fallbackRegex.exec(html)) !== null) {
-      const code = match[0];
-      drafts.push({
-        code,
-        rewardType: 'Unknown',
-        status: 'Active',
-        notes: extractHtmlSnippet(html, match.index, code.length),
-        url,
-        isFallback: false,
-      });
-    }
-  }
-
-  return draftsToShiftCodes(sourceName, drafts, collectedAt);
-}
-
-// 複数候補キーから最初に見つかった非空文字列を返す
-function pickString(record: Record<string, unknown>, keys: string[]): string | undefined {
-  for (const key of keys) {
-    const value = record[key];
-    if (typeof value === 'string') {
-      const trimmed = value.trim();
-      if (trimmed.length > 0) {
-        return trimmed;
-      }
-    }
-  }
-  return undefined;
-}
-
-// コード文字列を大文字・正規フォーマットへ整形
-function normalizeShiftCode(raw: string): string {
-  const trimmed = raw.trim();
-  if (!trimmed) {
-    return '';
-  }
-  const replaced = trimmed
-    .replace(/[–—―]/g, '-')
-    .replace(/\s+/g, '-')
-    .replace(/[^A-Z0-9-]/gi, '')
-    .replace(/-+/g, '-');
-  return replaced.toUpperCase();
-}
-
-// ステータス文字列を標準化（未知は Active）
-function sanitizeStatus(value: string | CodeStatus | undefined): CodeStatus {
-  if (!value) {
-    return 'Active';
-  }
-  const normalized = value.toString().trim().toLowerCase();
-  return STATUS_LOOKUP[normalized] ?? 'Active';
-}
-
-// 初出日時の決定（解析可能ならその値、不可なら収集時刻）
-function resolveFirstSeenAt(value: string | undefined, fallbackIso: string): string {
-  if (value) {
-    const parsed = Date.parse(value);
-    if (!Number.isNaN(parsed)) {
-      return toIsoString(new Date(parsed));
-    }
-  }
-  return fallbackIso;
-}
-
-// 期限の正規化（補足括弧を削除してからDate.parse）
-function resolveExpiresAt(value: string | null | undefined): string | null {
-  if (!value) {
-    return null;
-  }
-  const cleaned = value.replace(/\(.*?\)/g, '').trim();
-  if (!cleaned) {
-    return null;
-  }
-  const parsed = Date.parse(cleaned);
-  if (Number.isNaN(parsed)) {
-    return null;
-  }
-  return toIsoString(new Date(parsed));
-}
-
-// ドラフトからメタデータを構築（空なら undefined）
-function buildMetadata(draft: ShiftCodeDraft): ShiftCode['metadata'] | undefined {
-  const metadata: ShiftCode['metadata'] = {};
-  if (draft.url) {
-    metadata.url = draft.url;
-  }
-  if (draft.notes) {
-    metadata.notes = draft.notes;
-  }
-  if (typeof draft.isFallback === 'boolean') {
-    metadata.isFallback = draft.isFallback;
-  }
-  return Object.keys(metadata).length ? metadata : undefined;
-}
-
-// ドラフト1件をShiftCodeに変換（妥当性を満たさなければ null）
-async function draftToShiftCode(
-  sourceName: SourceName,
-  draft: ShiftCodeDraft,
-  collectedAt: Date,
-): Promise<ShiftCode | null> {
-  const normalized = normalizeShiftCode(draft.code);
-  if (!SHIFT_CODE_PATTERN.test(normalized)) {
-    return null;
-  }
-
-  const collectedIso = toIsoString(collectedAt);
-  const firstSeenIso = resolveFirstSeenAt(draft.firstSeenAt, collectedIso);
-  const expiresIso = resolveExpiresAt(draft.expiresAt);
-  const rewardType = draft.rewardType && draft.rewardType.trim().length > 0 ? draft.rewardType.trim() : 'Unknown';
-  const status = sanitizeStatus(draft.status as string | CodeStatus | undefined);
-  const metadata = buildMetadata(draft);
-  const hash = await hashCode(`${CODE_TITLE}:${normalized}`);
-
-  const code: ShiftCode = {
-    id: crypto.randomUUID(),
-    title: CODE_TITLE,
-    codeText: normalized,
-    normalizedCodeText: normalized,
-    rewardType,
-    expiresAt: expiresIso,
-    firstSeenAt: firstSeenIso,
-    status,
-    sources: [sourceName],
-    hash,
-    createdAt: collectedIso,
-    updatedAt: collectedIso,
-  };
-
-  if (metadata) {
-    code.metadata = metadata;
-  }
-
-  return code;
-}
-
-// 複数ドラフトをShiftCode配列へ。重複(hash)は情報をマージして除去
-async function draftsToShiftCodes(
-  sourceName: SourceName,
-  drafts: ShiftCodeDraft[],
-  collectedAt: Date,
-): Promise<ShiftCode[]> {
-  if (!drafts.length) {
-    return [];
+export async function notifyCodeIfNeeded(
+  env: WorkerEnv,
+  code: ShiftCode,
+  actor: ChangeActor,
+  now = new Date(),
+): Promise<ShiftCode> {
+  const codes = !code.metadata?.notifiedAt && shouldNotify(code, now) ? [code] : [];
+  const holdCodes = isHoldCandidate(code, now) ? [code] : [];
+  if (!codes.length && !holdCodes.length) {
+    return code;
   }
-
-  const results = await Promise.all(drafts.map((draft) => draftToShiftCode(sourceName, draft, collectedAt)));
-  const deduped = new Map<string, ShiftCode>();
-
-  for (const code of results) {
-    if (!code) {
-      continue;
-    }
-    const existing = deduped.get(code.hash);
-    if (existing) {
-      existing.sources = ensureUnique([...existing.sources, ...code.sources]);
-      if ((!existing.rewardType || existing.rewardType === 'Unknown') && code.rewardType) {
-        existing.rewardType = code.rewardType;
-      }
-      if (!existing.expiresAt && code.expiresAt) {
-        existing.expiresAt = code.expiresAt;
-      }
-      if (!existing.metadata?.url && code.metadata?.url) {
-        existing.metadata = { ...existing.metadata, url: code.metadata.url };
-      }
-      if (!existing.metadata?.notes && code.metadata?.notes) {
-        existing.metadata = { ...existing.metadata, notes: code.metadata.notes };
-      }
-      continue;
-    }
-    deduped.set(code.hash, code);
+  const updated = applyDispatchRecords(code, await dispatchNotifications(env, codes, holdCodes));
+  if (updated !== code) {
+    await saveCode(env, updated, actor);
   }
-
-  return Array.from(deduped.values());
+  return updated;
 }
 
-function stripHtml(raw: string): string {
-  return raw
-    .replace(/<br\s*\/?\s*>/gi, '\n')
-    .replace(/<[^>]+>/g, ' ')
-    .replace(/&nbsp;/gi, ' ')
-    .replace(/&amp;/gi, '&')
-    .replace(/&lt;/gi, '<')
-    .replace(/&gt;/gi, '>')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
-function buildNotes(...parts: string[]): string | undefined {
-  const combined = parts.map((part) => part.trim()).filter(Boolean).join(' ').trim();
-  return combined.length ? combined : undefined;
-}
-
-function extractHtmlSnippet(html: string, index: number, length: number): string | undefined {
-  const start = Math.max(0, index - 200);
-  const end = Math.min(html.length, index + length + 200);
-  const snippet = stripHtml(html.slice(start, end));
-  return snippet.length ? snippet : undefined;
-}export interface ResendOptions {
+export interface ResendOptions {
   codeIds?: string[];
   statuses?: CodeStatus[];
   limit?: number;
@@ -553,11 +451,17 @@ export interface ResendSummary {
 
 export async function resendNotifications(
   env: WorkerEnv,
-  options: ResendOptions = {},
+  options: ResendOptions,
+  actor: ChangeActor,
 ): Promise<ResendSummary> {
-  const allCodes = await listCodes(env);
   const codeIdSet = options.codeIds ? new Set(options.codeIds) : undefined;
-  const statuses = options.statuses && options.statuses.length > 0 ? options.statuses : ['Active'];
+  const statuses: CodeStatus[] = options.statuses && options.statuses.length > 0 ? options.statuses : ['Active'];
+  // ID の指定があればそのコードのみ、なければ状態インデックスから読み込む（全件は読まない）
+  const allCodes = codeIdSet
+    ? (await Promise.all([...codeIdSet].map((id) => getCodeById(env, id)))).filter(
+        (code): code is ShiftCode => Boolean(code) && !code?.deletedAt,
+      )
+    : await listCodesByStatuses(env, statuses);
   const limit = options.limit && options.limit > 0 ? options.limit : undefined;
 
   let selected = allCodes.filter((code) => {
@@ -594,6 +498,8 @@ export async function resendNotifications(
       metadata: {
         ...code.metadata,
         notifiedAt: undefined,
+        channelNotifiedAt: undefined,
+        subscriberNotifiedAt: undefined,
       },
     });
   }
@@ -601,18 +507,16 @@ export async function resendNotifications(
   const notificationCandidates = Array.from(candidatesMap.values());
   const dispatchResult = await dispatchNotifications(env, notificationCandidates);
 
-  for (const { codeId, sentAt } of dispatchResult.sentRecords) {
+  const notifiedCodeIds = new Set([
+    ...dispatchResult.channelRecords.map((record) => record.codeId),
+    ...dispatchResult.subscriberRecords.map((record) => record.codeId),
+  ]);
+  for (const codeId of notifiedCodeIds) {
     const stored = await getCodeById(env, codeId);
     if (!stored) {
       continue;
     }
-    await saveCode(env, {
-      ...stored,
-      metadata: {
-        ...stored.metadata,
-        notifiedAt: sentAt,
-      },
-    });
+    await saveCode(env, applyDispatchRecords(stored, dispatchResult), actor);
   }
 
   return {
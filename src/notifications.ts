@@ -1,221 +1,380 @@
 /**
  * notifications.ts
  *
- * SHiFTコードに関する通知（Discord Webhook）を送信します。
- * - DRY_RUN もしくは Webhook 未設定時は送信せず、SKIPPED としてログのみ記録
- * - 429/5xx などの一時的な失敗に対してはリトライ（指数バックオフ）
+ * SHiFTコードに関する通知を各チャネル（Discord / Slack / Telegram / 汎用 Webhook）へ送信します。
+ * - DRY_RUN もしくは送信先未設定時は送信せず、SKIPPED としてログのみ記録
+ * - 429/5xx などの一時的な失敗に対してはチャネルごとのリトライ方針で再試行（指数バックオフ）
+ * - 通知ログは送信先ごとに 1 件ずつ記録
+ * - `NOTIFICATION_DIGEST=true` のときは 1 回の実行分をダイジェスト 1 通（上限超過時は分割）にまとめ、
+ *   ログはダイジェスト内の各コード × 送信先ごとに記録する
+ * - 購読者（subscribers.ts）へは条件に一致したコードのみを個別に送り、購読者ごとにログと送信時刻を残す
+ * - 全体の送信先へは `NOTIFICATION_GAMES` のタイトルのコードのみ送る（未設定なら全タイトル）
+ * - 全体の送信先への送信時刻は送信先ごとに `channelNotifiedAt` へ残し、再送では届いていない送信先にだけ送る。
+ *   `notifiedAt` は設定済みのすべての送信先へ届いた時点で記録する
  */
 import type { WorkerEnv } from './env';
-import type { ShiftCode } from './models';
-import { saveNotificationLog } from './storage';
-import { sleep, toIsoString } from './utils';
+import type { NotificationDestination, NotificationDigest, NotificationLog, ShiftCode } from './models';
+import { listSubscribers, saveNotificationLog } from './storage';
+import { notificationChannels } from './channels';
+import type { ChannelRequest, NotificationChannel } from './channels';
+import { matchesSubscriber } from './subscribers';
+import { parseGameList } from './games';
+import { parseRetryAfter, sleep, toIsoString } from './utils';
 
 /**
  * 通知ディスパッチの結果サマリ。
+ * - sent: 全体の送信先（環境変数で設定したチャネル）の 1 つ以上へ今回届いたコード数
+ * - deliveries: 送信先単位の送信成功数（購読者宛てを含む）
+ * - sentRecords: 設定済みの全体の送信先すべてへ届き終えたコード（`notifiedAt` の反映用）
+ * - channelRecords: 全体の送信先ごとに届いたコード（`channelNotifiedAt` の反映用）
+ * - subscriberRecords: 購読者へ届いたコード（`subscriberNotifiedAt` の反映用）
  */
 export interface NotificationDispatchResult {
   sent: number;
   attempted: number;
+  deliveries: number;
   sentRecords: Array<{ codeId: string; sentAt: string }>;
+  channelRecords: Array<{ codeId: string; destination: NotificationDestination; sentAt: string }>;
+  subscriberRecords: Array<{ codeId: string; subscriberId: string; sentAt: string }>;
 }
 
-// 最大リトライ回数（試行総数）
-const MAX_NOTIFICATION_ATTEMPTS = 3;
-// 指数バックオフの基底ミリ秒
-const BACKOFF_BASE_MS = 1000;
+/**
+ * 1 送信先への送信結果。
+ */
+interface ChannelDeliveryResult {
+  delivered: boolean;
+  responseStatus?: number;
+  error?: string;
+}
 
-// ISO文字列（あるいはnull/undefined）をUTC日付(YYYY-MM-DD)に整形
-function formatUtcDate(value: string | null | undefined): string | null {
-  if (!value) {
-    return null;
-  }
-  const timestamp = Date.parse(value);
-  if (Number.isNaN(timestamp)) {
-    return null;
-  }
-  const date = new Date(timestamp);
-  const year = date.getUTCFullYear();
-  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
-  const day = String(date.getUTCDate()).padStart(2, '0');
-  return `${year}-${month}-${day} (UTC)`;
-}
-
-// Discord Webhook へ送るJSONペイロードを組み立て
-function buildDiscordPayload(code: ShiftCode) {
-  const codeDisplay = code.codeText ?? code.normalizedCodeText ?? 'Unknown';
-  const lines = [
-    `**Code:** \`${codeDisplay}\``,
-    `**Sources:** ${code.sources.join(', ')}`,
-    `**Status:** ${code.status}`,
-    `**First seen:** ${formatUtcDate(code.firstSeenAt) ?? code.firstSeenAt}`,
-  ];
-  const formattedExpires = formatUtcDate(code.expiresAt);
-  if (formattedExpires) {
-    lines.push(`**Expires:** ${formattedExpires}`);
-  } else {
-    lines.push('**Expires:** Unknown');
-  }
-  if (code.rewardType) {
-    lines.push(`**Reward:** ${code.rewardType}`);
+/**
+ * 送信先が設定済みのチャネル。
+ */
+interface ConfiguredChannel {
+  channel: NotificationChannel;
+  target: string;
+}
+
+// 送信先が設定されているチャネルのみを抽出
+function resolveConfiguredChannels(env: WorkerEnv): ConfiguredChannel[] {
+  return notificationChannels
+    .map((channel) => ({ channel, target: channel.resolveTarget(env) }))
+    .filter((entry): entry is ConfiguredChannel => Boolean(entry.target));
+}
+
+/**
+ * 全体の送信先（環境変数で設定したチャネル）が 1 つ以上設定されているか。
+ */
+export function hasConfiguredChannels(env: WorkerEnv): boolean {
+  return resolveConfiguredChannels(env).length > 0;
+}
+
+/**
+ * ダイジェスト送信が有効か。
+ */
+export function isDigestEnabled(env: WorkerEnv): boolean {
+  return env.NOTIFICATION_DIGEST === 'true';
+}
+
+/**
+ * 全体の送信先へ通知するタイトル（`NOTIFICATION_GAMES`）のコードか。
+ */
+export function isChannelGame(env: WorkerEnv, code: ShiftCode): boolean {
+  const games = parseGameList(env.NOTIFICATION_GAMES);
+  return !games.length || games.includes(code.title);
+}
+
+function emptyResult(attempted: number): NotificationDispatchResult {
+  return { sent: 0, attempted, deliveries: 0, sentRecords: [], channelRecords: [], subscriberRecords: [] };
+}
+
+// 1 回の実行分のコードをまとめたダイジェスト
+function buildRunDigest(codes: ShiftCode[]): NotificationDigest {
+  return { id: crypto.randomUUID(), kind: 'RUN', sections: [{ key: 'new', codes }] };
+}
+
+// ダイジェスト内のコード（重複除去）
+function digestCodes(digest: NotificationDigest): ShiftCode[] {
+  return [...new Map(digest.sections.flatMap((section) => section.codes).map((code) => [code.id, code])).values()];
+}
+
+// チャネルのリトライ方針に従って 1 リクエスト送信
+async function deliverRequest(channel: NotificationChannel, request: ChannelRequest): Promise<ChannelDeliveryResult> {
+  const { maxAttempts, backoffBaseMs } = channel.retry;
+  let lastResponseStatus: number | undefined;
+  let lastError: string | undefined;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    try {
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request.body),
+      });
+
+      lastResponseStatus = response.status;
+
+      if (response.ok) {
+        return { delivered: true, responseStatus: response.status };
+      }
+
+      if (response.status === 429) {
+        const retryAfterHeader = response.headers.get('Retry-After');
+        const retrySeconds = parseRetryAfter(retryAfterHeader);
+        if (attempt < maxAttempts - 1) {
+          await sleep(retrySeconds * 1000);
+          continue;
+        }
+        lastError = 'HTTP 429';
+        break;
+      }
+
+      if (response.status >= 500 && attempt < maxAttempts - 1) {
+        const delay = backoffBaseMs * 2 ** attempt;
+        await sleep(delay);
+        continue;
+      }
+
+      lastError = `HTTP ${response.status}`;
+      break;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+      if (attempt < maxAttempts - 1) {
+        const delay = backoffBaseMs * 2 ** attempt;
+        await sleep(delay);
+        continue;
+      }
+      break;
+    }
   }
-  if (code.metadata?.url) {
-    lines.push(`**Source URL:** ${code.metadata.url}`);
+
+  return { delivered: false, responseStatus: lastResponseStatus, error: lastError ?? 'Unknown error' };
+}
+
+// 1 送信先へコード群を送り、コードごとの結果を返す（digest 指定時はまとめて送信）
+async function deliverCodes(
+  env: WorkerEnv,
+  channel: NotificationChannel,
+  target: string,
+  codes: ShiftCode[],
+  digest: NotificationDigest | null,
+): Promise<Map<string, ChannelDeliveryResult>> {
+  const outcomes = new Map<string, ChannelDeliveryResult>();
+  if (digest) {
+    for (const request of channel.buildDigestRequests(env, target, digest)) {
+      const delivery = await deliverRequest(channel, request);
+      for (const codeId of request.codeIds ?? []) {
+        outcomes.set(codeId, delivery);
+      }
+    }
+    return outcomes;
   }
-  if (code.metadata?.notes) {
-    lines.push(code.metadata.notes);
+  for (const code of codes) {
+    outcomes.set(code.id, await deliverRequest(channel, channel.buildRequest(env, target, code)));
   }
+  return outcomes;
+}
 
-  return {
-    content: '🚨 Borderlands 4 SHiFT code update!',
-    embeds: [
-      {
-        title: 'New SHiFT Code discovered',
-        description: lines.join('\n'),
-        color: 0xffc43d,
-        timestamp: new Date().toISOString(),
-        footer: {
-          text: 'Borderlands 4 SHiFT Monitor',
-        },
-      },
-    ],
-  };
+// 通知ログを 1 件記録
+async function logDelivery(
+  env: WorkerEnv,
+  base: Pick<NotificationLog, 'destination' | 'createdAt' | 'digestId' | 'subscriberId'>,
+  codeId: string,
+  delivery: ChannelDeliveryResult,
+): Promise<void> {
+  await saveNotificationLog(env, {
+    id: crypto.randomUUID(),
+    codeId,
+    status: delivery.delivered ? 'SENT' : 'SKIPPED',
+    ...base,
+    responseStatus: delivery.responseStatus,
+    error: delivery.error,
+  });
 }
 
-/**
- * コード配列に対して通知を送信。
- * - DRY_RUN/未設定時は送信スキップしてログのみ
- * - 429 は Retry-After を解釈して再試行
- * - 5xx は指数バックオフで再試行
- */
-export async function dispatchNotifications(
+// 環境変数で設定した全体の送信先へ送信し、結果を result に積む
+// - digestFor: 送信先ごとの送信対象からダイジェストを組み立てる（null ならコード単位で送信）
+// - skipDelivered: `channelNotifiedAt` に記録済みの送信先へは送らない（定期サマリは毎回すべてへ送る）
+async function dispatchToChannels(
   env: WorkerEnv,
   codes: ShiftCode[],
-): Promise<NotificationDispatchResult> {
-  const result: NotificationDispatchResult = {
-    sent: 0,
-    attempted: codes.length,
-    sentRecords: [],
+  digestFor: ((codes: ShiftCode[]) => NotificationDigest) | null,
+  result: NotificationDispatchResult,
+  skipDelivered: boolean,
+): Promise<void> {
+  if (!codes.length) {
+    return;
+  }
+  const createdAt = toIsoString(new Date());
+  const skipAll = async (destination: NotificationDestination, error: string) => {
+    const digestId = digestFor?.(codes).id;
+    for (const code of codes) {
+      await logDelivery(env, { destination, createdAt, digestId }, code.id, { delivered: false, error });
+    }
   };
 
-  if (!codes.length) {
-    return result;
+  const targets = resolveConfiguredChannels(env);
+  if (!targets.length) {
+    await skipAll('DISCORD_WEBHOOK', 'Webhook URL not configured');
+    return;
+  }
+  if (env.MODE !== 'PROD') {
+    for (const { channel } of targets) {
+      await skipAll(channel.destination, 'DRY_RUN_MODE');
+    }
+    return;
   }
 
-  const isProd = env.MODE === 'PROD';
-  const webhookUrl = env.DISCORD_WEBHOOK_URL;
+  const isDelivered = (code: ShiftCode, destination: NotificationDestination) =>
+    skipDelivered && Boolean(code.metadata?.channelNotifiedAt?.[destination]);
+  const deliveredCodeIds = new Set<string>();
+  const deliveredTo = new Set<string>();
+  for (const { channel, target } of targets) {
+    const destination = channel.destination;
+    const pending = codes.filter((code) => !isDelivered(code, destination));
+    if (!pending.length) {
+      continue;
+    }
+    const digest = digestFor?.(pending) ?? null;
+    const outcomes = await deliverCodes(env, channel, target, pending, digest);
+    for (const code of pending) {
+      const delivery = outcomes.get(code.id) ?? { delivered: false, error: 'Not included in digest' };
+      await logDelivery(env, { destination, createdAt, digestId: digest?.id }, code.id, delivery);
+      if (delivery.delivered) {
+        deliveredCodeIds.add(code.id);
+        deliveredTo.add(`${code.id}:${destination}`);
+        result.deliveries += 1;
+        result.channelRecords.push({ codeId: code.id, destination, sentAt: createdAt });
+      }
+    }
+  }
 
+  result.sent += deliveredCodeIds.size;
   for (const code of codes) {
-    const timestamp = toIsoString(new Date());
-
-    if (!isProd || !webhookUrl) {
-      await saveNotificationLog(env, {
-        id: crypto.randomUUID(),
-        codeId: code.id,
-        status: 'SKIPPED',
-        destination: 'DISCORD_WEBHOOK',
-        createdAt: timestamp,
-        error: !webhookUrl ? 'Webhook URL not configured' : 'DRY_RUN_MODE',
-      });
-      continue;
+    const complete = targets.every(
+      ({ channel }) => isDelivered(code, channel.destination) || deliveredTo.has(`${code.id}:${channel.destination}`),
+    );
+    if (complete && deliveredCodeIds.has(code.id)) {
+      result.sentRecords.push({ codeId: code.id, sentAt: createdAt });
     }
+  }
+}
 
-    let delivered = false;
-    let lastResponseStatus: number | undefined;
-    let lastError: string | undefined;
-
-    for (let attempt = 0; attempt < MAX_NOTIFICATION_ATTEMPTS && !delivered; attempt++) {
-      try {
-        const response = await fetch(webhookUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(buildDiscordPayload(code)),
-        });
-
-        lastResponseStatus = response.status;
-
-        if (response.ok) {
-          delivered = true;
-          result.sent += 1;
-          result.sentRecords.push({ codeId: code.id, sentAt: timestamp });
-          await saveNotificationLog(env, {
-            id: crypto.randomUUID(),
-            codeId: code.id,
-            status: 'SENT',
-            destination: 'DISCORD_WEBHOOK',
-            createdAt: timestamp,
-            responseStatus: response.status,
-          });
-          break;
-        }
+// 条件に一致する購読者へ個別に送信し、結果を result に積む（購読者ごとに送信済みのコードは除外）
+async function dispatchToSubscribers(
+  env: WorkerEnv,
+  codes: ShiftCode[],
+  result: NotificationDispatchResult,
+): Promise<void> {
+  if (!codes.length) {
+    return;
+  }
+  const subscribers = (await listSubscribers(env)).filter((subscriber) => subscriber.enabled);
+  const uniqueCodes = [...new Map(codes.map((code) => [code.id, code])).values()];
 
-        if (response.status === 429) {
-          const retryAfterHeader = response.headers.get('Retry-After');
-          const retrySeconds = parseRetryAfter(retryAfterHeader);
-          if (attempt < MAX_NOTIFICATION_ATTEMPTS - 1) {
-            await sleep(retrySeconds * 1000);
-            continue;
-          }
-          lastError = 'HTTP 429';
-          break;
-        }
+  for (const subscriber of subscribers) {
+    const channel = notificationChannels.find((item) => item.destination === subscriber.destination);
+    const matched = uniqueCodes.filter(
+      (code) => matchesSubscriber(subscriber, code) && !code.metadata?.subscriberNotifiedAt?.[subscriber.id],
+    );
+    if (!channel || !matched.length) {
+      continue;
+    }
 
-        if (response.status >= 500 && attempt < MAX_NOTIFICATION_ATTEMPTS - 1) {
-          const delay = BACKOFF_BASE_MS * 2 ** attempt;
-          await sleep(delay);
-          continue;
-        }
+    const createdAt = toIsoString(new Date());
+    const digest = isDigestEnabled(env) ? buildRunDigest(matched) : null;
+    const base = { destination: subscriber.destination, createdAt, digestId: digest?.id, subscriberId: subscriber.id };
 
-        lastError = `HTTP ${response.status}`;
-        break;
-      } catch (error) {
-        lastError = error instanceof Error ? error.message : 'Unknown error';
-        if (attempt < MAX_NOTIFICATION_ATTEMPTS - 1) {
-          const delay = BACKOFF_BASE_MS * 2 ** attempt;
-          await sleep(delay);
-          continue;
-        }
-        break;
+    if (env.MODE !== 'PROD') {
+      for (const code of matched) {
+        await logDelivery(env, base, code.id, { delivered: false, error: 'DRY_RUN_MODE' });
       }
+      continue;
     }
 
-    if (!delivered) {
-      await saveNotificationLog(env, {
-        id: crypto.randomUUID(),
-        codeId: code.id,
-        status: 'SKIPPED',
-        destination: 'DISCORD_WEBHOOK',
-        createdAt: timestamp,
-        responseStatus: lastResponseStatus,
-        error: lastError ?? 'Unknown error',
-      });
+    const outcomes = await deliverCodes(env, channel, subscriber.url, matched, digest);
+    for (const code of matched) {
+      const delivery = outcomes.get(code.id) ?? { delivered: false, error: 'Not included in digest' };
+      await logDelivery(env, base, code.id, delivery);
+      if (delivery.delivered) {
+        result.deliveries += 1;
+        result.subscriberRecords.push({ codeId: code.id, subscriberId: subscriber.id, sentAt: createdAt });
+      }
     }
   }
+}
+
+/**
+ * コード配列を、設定済みの全チャネルと条件に一致する購読者へ通知。
+ * - DRY_RUN/未設定時は送信スキップしてログのみ
+ * - 429 は Retry-After を解釈して再試行
+ * - 5xx は指数バックオフで再試行
+ * - ダイジェスト有効時は送信先ごとに 1 通（上限超過時は分割）にまとめる
+ * - 全体の送信先のうち `channelNotifiedAt` に記録済みの送信先へは送らない（前回失敗した送信先のみ再送）
+ * - subscriberOnlyCodes は購読者にのみ送る候補（includeHold 向けの Hold コードなど）
+ */
+export async function dispatchNotifications(
+  env: WorkerEnv,
+  codes: ShiftCode[],
+  subscriberOnlyCodes: ShiftCode[] = [],
+): Promise<NotificationDispatchResult> {
+  const channelCodes = codes.filter((code) => isChannelGame(env, code));
+  const result = emptyResult(channelCodes.length);
+  await dispatchToChannels(env, channelCodes, isDigestEnabled(env) ? buildRunDigest : null, result, true);
+  await dispatchToSubscribers(env, [...codes, ...subscriberOnlyCodes], result);
+  return result;
+}
 
+/**
+ * ダイジェスト 1 件を設定済みの全チャネルへ送信（定期サマリ用。購読者には送らない）。
+ * - チャネルごとに上限内へ分割したリクエストを順に送り、各コードは自分を含むリクエストの成否で記録
+ * - 通知ログはコード × 送信先ごとに `digestId` 付きで記録
+ */
+export async function dispatchDigest(
+  env: WorkerEnv,
+  digest: NotificationDigest,
+): Promise<NotificationDispatchResult> {
+  const filtered: NotificationDigest = {
+    ...digest,
+    sections: digest.sections.map((section) => ({
+      ...section,
+      codes: section.codes.filter((code) => isChannelGame(env, code)),
+    })),
+  };
+  const codes = digestCodes(filtered);
+  const result = emptyResult(codes.length);
+  await dispatchToChannels(env, codes, () => filtered, result, false);
   return result;
 }
 
 /**
- * Retry-After ヘッダを秒数に解釈。
- * - 数値型（秒）/ 日付型（HTTP-date）の両方を扱う
- * - 最小1秒、最大3600秒にクリップ
+ * ディスパッチ結果をコードに反映する（`notifiedAt`、送信先ごとの `channelNotifiedAt`、購読者ごとの `subscriberNotifiedAt`）。
+ * 該当する記録がなければ同じオブジェクトを返す。
  */
-function parseRetryAfter(header: string | null): number {
-  if (!header) {
-    return 1;
+export function applyDispatchRecords(code: ShiftCode, result: NotificationDispatchResult): ShiftCode {
+  const sent = result.sentRecords.find((record) => record.codeId === code.id);
+  const channelRecords = result.channelRecords.filter((record) => record.codeId === code.id);
+  const subscriberRecords = result.subscriberRecords.filter((record) => record.codeId === code.id);
+  if (!sent && !channelRecords.length && !subscriberRecords.length) {
+    return code;
   }
-
-  const numeric = Number(header);
-  if (!Number.isNaN(numeric) && numeric >= 0) {
-    return Math.max(1, Math.min(3600, Math.ceil(numeric)));
+  const channelNotifiedAt = { ...code.metadata?.channelNotifiedAt };
+  for (const record of channelRecords) {
+    channelNotifiedAt[record.destination] = record.sentAt;
   }
-
-  const dateValue = Date.parse(header);
-  if (!Number.isNaN(dateValue)) {
-    const diffSeconds = Math.ceil((dateValue - Date.now()) / 1000);
-    return Math.max(1, Math.min(3600, diffSeconds));
+  const subscriberNotifiedAt = { ...code.metadata?.subscriberNotifiedAt };
+  for (const record of subscriberRecords) {
+    subscriberNotifiedAt[record.subscriberId] = record.sentAt;
   }
-
-  return 1;
+  return {
+    ...code,
+    metadata: {
+      ...code.metadata,
+      ...(sent ? { notifiedAt: sent.sentAt } : {}),
+      ...(channelRecords.length ? { channelNotifiedAt } : {}),
+      ...(subscriberRecords.length ? { subscriberNotifiedAt } : {}),
+    },
+  };
 }
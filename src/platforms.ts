@@ -0,0 +1,117 @@
+/**
+ * platforms.ts
+ *
+ * コードの利用可能プラットフォーム（引き換え範囲）の抽出と判定。
+ * - フィードの `platform` / `platforms` 項目や PC Gamer の表の行テキストから、
+ *   Steam / Epic / PlayStation / Xbox / Switch / 全プラットフォーム（UNIVERSAL）を読み取る
+ * - 記載のないコードは `platforms` を持たず、絞り込みでは全プラットフォーム扱いにする
+ *   （SHiFT コードは特記がなければ全プラットフォーム共通のため）
+ */
+import type { Platform, PlatformScope } from './models';
+
+/**
+ * 個別のプラットフォーム（UNIVERSAL を除く）の一覧。
+ */
+export const PLATFORMS: Platform[] = ['STEAM', 'EPIC', 'PLAYSTATION', 'XBOX', 'SWITCH'];
+
+// 表示順（UNIVERSAL を先頭に）
+const SCOPE_ORDER: PlatformScope[] = ['UNIVERSAL', ...PLATFORMS];
+
+/**
+ * 表示名。
+ */
+export const PLATFORM_LABELS: Record<PlatformScope, string> = {
+  UNIVERSAL: 'All platforms',
+  STEAM: 'Steam',
+  EPIC: 'Epic Games Store',
+  PLAYSTATION: 'PlayStation',
+  XBOX: 'Xbox',
+  SWITCH: 'Nintendo Switch',
+};
+
+// 本文中の表記とプラットフォームの対応（PC・コンソールはまとめて複数に展開）
+const PLATFORM_KEYWORDS: Array<{ pattern: RegExp; scopes: PlatformScope[] }> = [
+  { pattern: /\b(?:universal|all\s+platforms|cross[-\s]?platform|every\s+platform)\b/i, scopes: ['UNIVERSAL'] },
+  { pattern: /\bsteam\b/i, scopes: ['STEAM'] },
+  // 「Epic」単独はレアリティ名と紛らわしいため、ストア名の表記のみ
+  { pattern: /\bepic\s+(?:games|store)\b|\begs\b/i, scopes: ['EPIC'] },
+  { pattern: /\b(?:playstation|ps[45]|psn)\b/i, scopes: ['PLAYSTATION'] },
+  { pattern: /\b(?:xbox|xb1|xsx)\b/i, scopes: ['XBOX'] },
+  { pattern: /\b(?:nintendo\s+)?switch(?:\s*2)?\b/i, scopes: ['SWITCH'] },
+  { pattern: /\bpc(?:[-\s]only)?\b/i, scopes: ['STEAM', 'EPIC'] },
+  { pattern: /\bconsoles?(?:[-\s]only)?\b/i, scopes: ['PLAYSTATION', 'XBOX', 'SWITCH'] },
+];
+
+/**
+ * 重複を除いて表示順に並べる。UNIVERSAL を含むか、個別の全プラットフォームを含む場合は UNIVERSAL のみにする。
+ */
+export function normalizePlatforms(scopes: PlatformScope[]): PlatformScope[] {
+  const unique = new Set(scopes);
+  if (unique.has('UNIVERSAL') || PLATFORMS.every((platform) => unique.has(platform))) {
+    return ['UNIVERSAL'];
+  }
+  return SCOPE_ORDER.filter((scope) => unique.has(scope));
+}
+
+/**
+ * テキストからプラットフォームを読み取る（見つからなければ空配列）。
+ */
+export function extractPlatforms(text: string | undefined): PlatformScope[] {
+  if (!text) {
+    return [];
+  }
+  const found = PLATFORM_KEYWORDS.filter(({ pattern }) => pattern.test(text)).flatMap(({ scopes }) => scopes);
+  return normalizePlatforms(found);
+}
+
+// 1 項目分の表記を解釈（ID そのもの、または本文の表記）
+function parsePlatformToken(value: string): PlatformScope[] {
+  const upper = value.trim().toUpperCase();
+  return (SCOPE_ORDER as string[]).includes(upper) ? [upper as PlatformScope] : extractPlatforms(value);
+}
+
+/**
+ * フィード項目の値（文字列または文字列配列。文字列は `,` `/` `|` 区切り可）からプラットフォームを読み取る。
+ */
+export function parsePlatformField(value: unknown): PlatformScope[] {
+  const items =
+    typeof value === 'string'
+      ? value.split(/[,/|]/)
+      : Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === 'string')
+      : [];
+  return normalizePlatforms(items.flatMap(parsePlatformToken));
+}
+
+/**
+ * 2 つの記載を統合する（どちらかが未記載ならもう一方を採用）。
+ */
+export function mergePlatforms(
+  current: PlatformScope[] | undefined,
+  incoming: PlatformScope[] | undefined,
+): PlatformScope[] | undefined {
+  if (!current?.length) {
+    return incoming?.length ? incoming : current;
+  }
+  if (!incoming?.length) {
+    return current;
+  }
+  return normalizePlatforms([...current, ...incoming]);
+}
+
+/**
+ * コードが指定プラットフォームのいずれかで使えるか（未記載・UNIVERSAL は常に一致）。
+ */
+export function matchesPlatforms(platforms: PlatformScope[] | undefined, wanted: Platform[]): boolean {
+  if (!platforms?.length || platforms.includes('UNIVERSAL')) {
+    return true;
+  }
+  return platforms.some((platform) => (wanted as PlatformScope[]).includes(platform));
+}
+
+/**
+ * 値が個別のプラットフォーム ID か。
+ */
+export function isPlatform(value: unknown): value is Platform {
+  return typeof value === 'string' && (PLATFORMS as string[]).includes(value);
+}
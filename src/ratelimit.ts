@@ -0,0 +1,142 @@
+/**
+ * ratelimit.ts
+ *
+ * API のレート制限（トークンバケット）。
+ * - 有効な API キー付きのリクエストはキー単位、それ以外は接続元 IP 単位でバケットを持つ
+ * - キーの照合（ハッシュ計算と R2 の読み出し）は IP 単位のバケットに残りがある場合のみ行い、
+ *   無効なキーを送り続けるクライアントには照合のコストを掛けない。public / submission は常に IP 単位で照合しない
+ * - ルート群（public / read / operator / admin / submission）ごとに 1 分あたりの上限を環境変数で設定
+ * - `RateLimit-Limit` / `RateLimit-Remaining` / `RateLimit-Reset` / `RateLimit-Policy` を付与し、
+ *   超過時は 429 と `Retry-After` を返す
+ * - バケットは Worker のインスタンス（isolate）ごとのメモリに保持する。R2 への書き込みを
+ *   リクエストごとに発生させないための割り切りで、厳密なグローバル上限ではない
+ */
+import type { Context, MiddlewareHandler } from 'hono';
+import type { WorkerEnv } from './env';
+import { resolveCaller } from './auth';
+import type { AppEnv } from './auth';
+import { parseNumber } from './utils';
+
+/**
+ * レート制限のルート群。
+ */
+export type RateLimitGroup = 'public' | 'read' | 'operator' | 'admin' | 'submission';
+
+const DEFAULT_LIMITS_PER_MINUTE: Record<RateLimitGroup, number> = {
+  public: 60,
+  read: 120,
+  operator: 20,
+  admin: 30,
+  submission: 5,
+};
+
+const LIMIT_ENV_KEYS: Record<RateLimitGroup, keyof WorkerEnv> = {
+  public: 'RATE_LIMIT_PUBLIC_PER_MINUTE',
+  read: 'RATE_LIMIT_READ_PER_MINUTE',
+  operator: 'RATE_LIMIT_OPERATOR_PER_MINUTE',
+  admin: 'RATE_LIMIT_ADMIN_PER_MINUTE',
+  submission: 'RATE_LIMIT_SUBMISSION_PER_MINUTE',
+};
+
+// メモリに保持するバケット数の上限（超えたら最も古いものから破棄）
+const MAX_BUCKETS = 10000;
+
+/**
+ * トークンバケットの状態。
+ */
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+/**
+ * バケットからトークンを 1 つ消費した結果。
+ * - resetSeconds: 満タンに戻るまでの秒数
+ * - retryAfterSeconds: 拒否時、次のトークンが補充されるまでの秒数
+ */
+interface ConsumeResult {
+  allowed: boolean;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds: number;
+}
+
+// ルート群の 1 分あたり上限（0 以下なら無制限）
+function resolveLimit(env: WorkerEnv, group: RateLimitGroup): number {
+  const raw = env[LIMIT_ENV_KEYS[group]];
+  return Math.floor(parseNumber(typeof raw === 'string' ? raw : undefined, DEFAULT_LIMITS_PER_MINUTE[group]));
+}
+
+// API キーを照合せず IP 単位で制限するルート群（認証を使わないルート）
+const IP_ONLY_GROUPS: RateLimitGroup[] = ['public', 'submission'];
+
+// 補充後のトークン数（容量 = 1 分あたり上限、毎秒 上限/60 ずつ補充）
+function availableTokens(key: string, capacity: number, nowMs: number): number {
+  const current = buckets.get(key) ?? { tokens: capacity, updatedAt: nowMs };
+  return Math.min(capacity, current.tokens + (nowMs - current.updatedAt) * (capacity / 60000));
+}
+
+// トークンを補充したうえで 1 つ消費
+function consumeToken(key: string, capacity: number, nowMs: number): ConsumeResult {
+  const refillPerMs = capacity / 60000;
+  const tokens = availableTokens(key, capacity, nowMs);
+  const allowed = tokens >= 1;
+  const next = { tokens: allowed ? tokens - 1 : tokens, updatedAt: nowMs };
+
+  // 参照順を更新（Map は挿入順のため、削除して入れ直す）
+  buckets.delete(key);
+  buckets.set(key, next);
+  if (buckets.size > MAX_BUCKETS) {
+    const oldest = buckets.keys().next().value;
+    if (oldest !== undefined) {
+      buckets.delete(oldest);
+    }
+  }
+
+  return {
+    allowed,
+    remaining: Math.floor(next.tokens),
+    resetSeconds: Math.ceil((capacity - next.tokens) / refillPerMs / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - next.tokens) / refillPerMs / 1000),
+  };
+}
+
+/**
+ * リクエストの接続元 IP（取得できなければ `unknown`）。
+ */
+export function clientAddress(c: Context<AppEnv>): string {
+  return c.req.header('CF-Connecting-IP') ?? c.req.header('X-Forwarded-For')?.split(',')[0]?.trim() ?? 'unknown';
+}
+
+/**
+ * ルート群ごとのレート制限ミドルウェア。認証より前に置き、無効なキーの総当たりも IP 単位で制限する。
+ */
+export function rateLimit(group: RateLimitGroup): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const limit = resolveLimit(c.env, group);
+    if (limit <= 0) {
+      await next();
+      return;
+    }
+
+    const nowMs = Date.now();
+    const ipBucket = `${group}:ip:${clientAddress(c)}`;
+    // IP 単位のバケットが空なら、キーを照合せずに IP 単位の結果（拒否）を返す
+    const caller =
+      IP_ONLY_GROUPS.includes(group) || availableTokens(ipBucket, limit, nowMs) < 1 ? null : await resolveCaller(c);
+    const result = consumeToken(caller ? `${group}:key:${caller.keyId}` : ipBucket, limit, nowMs);
+
+    c.header('RateLimit-Limit', String(limit));
+    c.header('RateLimit-Remaining', String(result.remaining));
+    c.header('RateLimit-Reset', String(result.resetSeconds));
+    c.header('RateLimit-Policy', `${limit};w=60`);
+
+    if (!result.allowed) {
+      c.header('Retry-After', String(result.retryAfterSeconds));
+      return c.json({ error: 'Too many requests', code: 'RATE_LIMITED' }, 429);
+    }
+    await next();
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * rewards.ts
+ *
+ * コードの報酬（リワード）の分類と数量の正規化。
+ * - 全ソース共通で、報酬の元の表記（`rewardType`）から種別と数量（`reward`）を求める
+ * - 絞り込みは種別 ID（`GoldenKey` など）との一致、または元の表記の部分一致で行う
+ */
+import type { Reward, RewardKind, ShiftCode } from './models';
+
+/**
+ * 報酬種別の一覧（並べ替え時の順序を兼ねる）。
+ */
+export const REWARD_KINDS: RewardKind[] = [
+  'GoldenKey',
+  'DiamondKey',
+  'SkeletonKey',
+  'VaultCard',
+  'Weapon',
+  'Cosmetic',
+  'Other',
+  'Unknown',
+];
+
+// 表記と種別の対応（先に一致したものを採用）
+const REWARD_KEYWORDS: Array<{ pattern: RegExp; kind: RewardKind }> = [
+  { pattern: /\bgolden\s*keys?\b/i, kind: 'GoldenKey' },
+  { pattern: /\bdiamond\s*keys?\b/i, kind: 'DiamondKey' },
+  { pattern: /\bskeleton\s*keys?\b/i, kind: 'SkeletonKey' },
+  { pattern: /\bvault\s*cards?\b/i, kind: 'VaultCard' },
+  { pattern: /\b(?:weapons?|guns?)\b/i, kind: 'Weapon' },
+  { pattern: /\b(?:cosmetics?|skins?|heads?|outfits?|emotes?|trinkets?|banners?|echo\s+themes?)\b/i, kind: 'Cosmetic' },
+];
+
+// 英単語の数量表記
+const QUANTITY_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+// 数量表記を数値に（解釈できなければ null）
+function parseQuantity(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const quantity = /^\d+$/.test(value) ? Number(value) : QUANTITY_WORDS[value.toLowerCase()];
+  return quantity && quantity > 0 ? quantity : null;
+}
+
+// 種別の表記の前後から数量を読み取る（例: 「3 Golden Keys」「3x Golden Key」「Golden Key x3」）
+function extractQuantity(text: string, start: number, end: number): number | null {
+  const before = text
+    .slice(0, start)
+    .match(/(?:^|[^\w])(\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten)\s*[x×]?\s*$/i);
+  if (before) {
+    return parseQuantity(before[1]);
+  }
+  const after = text.slice(end).match(/^\s*[x×]\s*(\d+)\b/i);
+  return parseQuantity(after?.[1]);
+}
+
+/**
+ * 報酬の元の表記を種別と数量に正規化する。
+ * - 空・「Unknown」は Unknown、既知の種別に当たらない表記は Other
+ * - 数量は表記がなければ null
+ */
+export function normalizeReward(text: string | undefined): Reward {
+  const trimmed = text?.trim() ?? '';
+  if (!trimmed || /^unknown$/i.test(trimmed)) {
+    return { kind: 'Unknown', quantity: null };
+  }
+  for (const { pattern, kind } of REWARD_KEYWORDS) {
+    const match = pattern.exec(trimmed);
+    if (match) {
+      return { kind, quantity: extractQuantity(trimmed, match.index, match.index + match[0].length) };
+    }
+  }
+  return { kind: 'Other', quantity: null };
+}
+
+// 比較用に記号・空白を除いて小文字化（例: 「golden-key」→「goldenkey」）
+function compactKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * 種別 ID を大文字小文字・区切り記号を無視して解釈する（該当がなければ null）。
+ */
+export function parseRewardKind(value: string): RewardKind | null {
+  const key = compactKey(value);
+  return REWARD_KINDS.find((kind) => compactKey(kind) === key) ?? null;
+}
+
+/**
+ * コードが報酬の指定のいずれかに一致するか。
+ * 指定は種別 ID との一致、または元の表記の部分一致（大文字小文字を区別しない）。
+ */
+export function matchesRewardFilter(code: ShiftCode, terms: string[]): boolean {
+  const text = (code.rewardType ?? '').toLowerCase();
+  return terms.some((term) => {
+    const kind = parseRewardKind(term);
+    return (kind !== null && code.reward.kind === kind) || text.includes(term.toLowerCase());
+  });
+}
+
+/**
+ * 報酬での並べ替え順（種別の一覧順、同じ種別は数量の多い順。数量不明は後ろ）。
+ */
+export function compareRewards(a: Reward, b: Reward): number {
+  const kindOrder = REWARD_KINDS.indexOf(a.kind) - REWARD_KINDS.indexOf(b.kind);
+  if (kindOrder !== 0) {
+    return kindOrder;
+  }
+  return (b.quantity ?? 0) - (a.quantity ?? 0);
+}
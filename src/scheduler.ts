@@ -0,0 +1,125 @@
+/**
+ * scheduler.ts
+ *
+ * ソース（タイトル × ソース）ごとのポーリング間隔を判定するスケジューラ。
+ * - 間隔は `SCHEDULE_OFFICIAL_MINUTES` / `SCHEDULE_MEDIA_MINUTES` / `SCHEDULE_COMMUNITY_MINUTES` から決定
+ * - 最終取得時刻（R2 の `state/source/`）と `JITTER_PCT` を基に次回実行時刻を算出
+ * - Cron は 5 分間隔で起動するため、期限前のソースはスキップする
+ */
+import type { WorkerEnv } from './env';
+import type { GameId, SourceAdapter, SourceName } from './models';
+import { getLastSourceFetchTimestamp } from './storage';
+import { clamp, parseNumber, toIsoString } from './utils';
+
+/**
+ * ポーリング間隔のカテゴリ。
+ */
+export type SourceScheduleGroup = 'OFFICIAL' | 'MEDIA' | 'COMMUNITY';
+
+/**
+ * ソース 1 件分のスケジュール判定結果。
+ */
+export interface SourceScheduleEntry {
+  source: SourceName;
+  game: GameId;
+  group: SourceScheduleGroup;
+  intervalMinutes: number;
+  lastFetchedAt: string | null;
+  nextRunAt: string;
+  due: boolean;
+}
+
+// ソースと間隔カテゴリの対応
+const SOURCE_GROUPS: Record<SourceName, SourceScheduleGroup> = {
+  OFFICIAL_SITE: 'OFFICIAL',
+  OFFICIAL_X: 'OFFICIAL',
+  MEDIA_TRUSTED: 'MEDIA',
+  COMMUNITY_AUX: 'COMMUNITY',
+};
+
+// 環境変数未設定時の既定間隔（分）
+const DEFAULT_INTERVAL_MINUTES: Record<SourceScheduleGroup, number> = {
+  OFFICIAL: 15,
+  MEDIA: 60,
+  COMMUNITY: 30,
+};
+
+// Cron の起動ずれを吸収する猶予（ミリ秒）
+const SCHEDULE_GRACE_MS = 60 * 1000;
+
+// ジッター割合の上限（%）
+const MAX_JITTER_PCT = 50;
+
+// 文字列から [-1, 1] の決定的な揺らぎ係数を得る（同じ最終取得時刻なら毎回同じ次回時刻になる）
+function deterministicJitterFactor(seed: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return ((hash >>> 0) / 0xffffffff) * 2 - 1;
+}
+
+/**
+ * ソースのポーリング間隔（分）を環境変数から解決する。
+ */
+export function resolveSourceIntervalMinutes(env: WorkerEnv, source: SourceName): number {
+  const group = SOURCE_GROUPS[source];
+  const raw =
+    group === 'OFFICIAL'
+      ? env.SCHEDULE_OFFICIAL_MINUTES
+      : group === 'MEDIA'
+      ? env.SCHEDULE_MEDIA_MINUTES
+      : env.SCHEDULE_COMMUNITY_MINUTES;
+  const minutes = parseNumber(raw, DEFAULT_INTERVAL_MINUTES[group]);
+  return minutes > 0 ? minutes : DEFAULT_INTERVAL_MINUTES[group];
+}
+
+/**
+ * 最終取得時刻から次回実行時刻（ISO）を算出する。未取得なら `now` を返す。
+ * ジッターはタイトル × ソースごとにずらし、同じソースを複数タイトルで同時に取得しないようにする。
+ */
+export function computeNextRunAt(
+  env: WorkerEnv,
+  source: SourceName,
+  game: GameId,
+  lastFetchedAt: string | null,
+  now: Date,
+): string {
+  if (!lastFetchedAt) {
+    return toIsoString(now);
+  }
+  const lastMs = Date.parse(lastFetchedAt);
+  if (Number.isNaN(lastMs)) {
+    return toIsoString(now);
+  }
+  const intervalMs = resolveSourceIntervalMinutes(env, source) * 60 * 1000;
+  const jitterPct = clamp(parseNumber(env.JITTER_PCT, 0), 0, MAX_JITTER_PCT);
+  const jitterMs = intervalMs * (jitterPct / 100) * deterministicJitterFactor(`${game}:${source}:${lastFetchedAt}`);
+  return toIsoString(new Date(lastMs + intervalMs + jitterMs));
+}
+
+/**
+ * 対象アダプターそれぞれについて、今回の実行で取得すべきか判定する。
+ */
+export async function planSourceSchedule(
+  env: WorkerEnv,
+  adapters: Array<Pick<SourceAdapter, 'id' | 'game'>>,
+  now: Date,
+): Promise<SourceScheduleEntry[]> {
+  return Promise.all(
+    adapters.map(async ({ id: source, game }) => {
+      const lastFetchedAt = await getLastSourceFetchTimestamp(env, source, game);
+      const nextRunAt = computeNextRunAt(env, source, game, lastFetchedAt, now);
+      return {
+        source,
+        game,
+        group: SOURCE_GROUPS[source],
+        intervalMinutes: resolveSourceIntervalMinutes(env, source),
+        lastFetchedAt,
+        nextRunAt,
+        due: Date.parse(nextRunAt) - SCHEDULE_GRACE_MS <= now.getTime(),
+      };
+    }),
+  );
+}
@@ -2,96 +2,199 @@
  * sources.ts
  *
  * 各種ソース（公式サイト/X/メディア/コミュニティ）からコードを収集するための
- * フェッチャーと整形処理を提供します。Cloudflare Worker 以外の実行環境からも
- * 再利用できるよう、純粋関数で構成しています。
+ * ソースアダプターとそのレジストリを提供します。
+ * - 各アダプターは fetch（取得）→ parse（候補抽出）→ normalize（検証・正規化）の 3 段階で構成
+ * - アダプターは監視対象タイトル（games.ts）ごとに生成し、取得先 URL とコード形式はタイトルの設定に従う
+ * - Worker（monitor.ts）と CLI（scripts/fetch-codes.ts）は同じレジストリを利用する
+ * - HTTP 取得は 429/5xx/通信エラー時に指数バックオフ（ジッター付き）で再試行し、429 は Retry-After を優先
+ *   （Retry-After が待機の上限を超える場合は再試行せず、待機時間を添えた SourceFetchError で打ち切る）
+ * - Cloudflare Worker 以外の実行環境からも再利用できるよう、R2 等には依存しない
  */
 import type {
-  SourceFetcher,
-  SourceFetchResult,
+  CodeStatus,
   CollectedCode,
+  DetectionErrorCode,
+  GameId,
+  RejectedCandidate,
+  RetryPolicy,
+  ShiftCode,
+  SourceAdapter,
   SourceFetchContext,
+  SourceFetchResult,
   SourceName,
-  CodeStatus,
+  SourceNormalizeResult,
+  SourceParseResult,
 } from './models';
-import { toIsoString } from './utils';
+import {
+  clamp,
+  ensureUnique,
+  hashCode,
+  parseNumber,
+  parseRetryAfter,
+  parseWhitelist,
+  sleep,
+  toIsoString,
+} from './utils';
 import type { WorkerEnv } from './env';
+import { DEFAULT_GAME, games, resolveEnabledGames, resolveGameSourceUrl } from './games';
+import { extractPlatforms, mergePlatforms, normalizePlatforms, parsePlatformField } from './platforms';
+import { normalizeReward } from './rewards';
+
+const USER_AGENT = 'Borderlands4-SHiFT-Monitor/1.0';
+// リトライ設定の既定値
+const DEFAULT_RETRY_MAX = 2;
+const DEFAULT_RETRY_BASE_MS = 500;
+const DEFAULT_RETRY_JITTER_PCT = 20;
+// Retry-After に従って待機する上限（Worker の実行時間を食い潰さないため）
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+const STATUS_LOOKUP: Record<string, CodeStatus> = {
+  active: 'Active',
+  expired: 'Expired',
+  hold: 'Hold',
+};
 
-// 環境変数キーとフォールバック用サンプルの束
-interface SourceConfigEntry {
-  envKey: keyof WorkerEnv | string;
-  defaultCodes: CollectedCode[];
-}
-
-// メディア信頼ソースの既定URL（PC Gamer）
-const DEFAULT_PC_GAMER_URL =
-  'https://www.pcgamer.com/games/fps/borderlands-4-shift-codes/';
-// 4-5桁ブロック×4-5の候補を抽出する正規表現（寛容）
-const SHIFT_CODE_REGEX = /\b[A-Z0-9]{4,5}(?:-[A-Z0-9]{4,5}){3,4}\b/g;
-
-const nowIso = () => toIsoString(new Date());
-
-// 環境未設定時に返すサンプル（isFallback=true）
+// 環境未設定時に CLI が返す BL4 のサンプル（isFallback=true）
 const SAMPLE_CODES: Record<SourceName, CollectedCode[]> = {
   OFFICIAL_SITE: [
     {
       code: 'BL4A1-EDGE0-CR0N0-G0LDN-KEY00',
       rewardType: 'Golden Keys',
       status: 'Active',
-      firstSeenAt: nowIso(),
       notes: 'Sample code from official site feed',
       isFallback: true,
     },
   ],
   OFFICIAL_X: [
     {
-      code: 'BL4TW-1TT3R-FAK3-C0D3-EDGE0',
+      code: 'BL4TW-1TT3R-FAK3X-C0D3X-EDGE0',
       rewardType: 'Vault Card',
       status: 'Active',
-      firstSeenAt: nowIso(),
       notes: 'Sample code from X (Twitter)',
       isFallback: true,
     },
   ],
   MEDIA_TRUSTED: [
     {
-      code: 'BL4MD-PR3SS-FAK3-C0D3-EDGE0',
+      code: 'BL4MD-PR3SS-FAK3X-C0D3X-EDGE0',
       rewardType: 'Cosmetic',
       status: 'Hold',
-      firstSeenAt: nowIso(),
       notes: 'Sample code from media partner',
       isFallback: true,
     },
   ],
   COMMUNITY_AUX: [
     {
-      code: 'BL4CM-UNITY-AUX0-FAK3-C0D3',
+      code: 'BL4CM-UNITY-AUX00-FAK3X-C0D3X',
       rewardType: 'Shift Pack',
       status: 'Hold',
-      firstSeenAt: nowIso(),
       notes: 'Sample community-discovered code',
       isFallback: true,
     },
   ],
 };
 
-const SOURCE_CONFIG: Record<SourceName, SourceConfigEntry> = {
-  OFFICIAL_SITE: {
-    envKey: 'SOURCE_OFFICIAL_SITE_URL',
-    defaultCodes: SAMPLE_CODES.OFFICIAL_SITE,
-  },
-  OFFICIAL_X: {
-    envKey: 'SOURCE_OFFICIAL_X_URL',
-    defaultCodes: SAMPLE_CODES.OFFICIAL_X,
-  },
-  MEDIA_TRUSTED: {
-    envKey: 'SOURCE_MEDIA_TRUSTED_URL',
-    defaultCodes: SAMPLE_CODES.MEDIA_TRUSTED,
-  },
-  COMMUNITY_AUX: {
-    envKey: 'SOURCE_COMMUNITY_AUX_URL',
-    defaultCodes: SAMPLE_CODES.COMMUNITY_AUX,
-  },
-};
+/**
+ * ソース取得・解析の失敗。検出ログ用のエラー分類と、応答に Retry-After があればその待機時間を保持する。
+ */
+export class SourceFetchError extends Error {
+  constructor(
+    message: string,
+    readonly errorCode: DetectionErrorCode,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'SourceFetchError';
+  }
+}
+
+// HTTP ステータスを検出ログのエラー分類へ変換
+function classifyHttpStatus(status: number): DetectionErrorCode {
+  if (status === 429) {
+    return 'HTTP_429';
+  }
+  return status >= 500 ? 'HTTP_5XX' : 'HTTP_4XX';
+}
+
+/**
+ * `RETRY_MAX` / `RETRY_BASE_MS` / `RETRY_JITTER_PCT` からリトライ方針を解決する。
+ */
+export function resolveRetryPolicy(env: WorkerEnv): RetryPolicy {
+  return {
+    maxRetries: Math.max(0, Math.floor(parseNumber(env.RETRY_MAX, DEFAULT_RETRY_MAX))),
+    baseDelayMs: Math.max(0, parseNumber(env.RETRY_BASE_MS, DEFAULT_RETRY_BASE_MS)),
+    jitterPct: clamp(parseNumber(env.RETRY_JITTER_PCT, DEFAULT_RETRY_JITTER_PCT), 0, 100),
+    maxRetryAfterMs: MAX_RETRY_AFTER_MS,
+  };
+}
+
+// 試行回数に応じた待機時間（base * 2^attempt ± jitter%）
+function computeBackoffMs(policy: RetryPolicy, attempt: number): number {
+  const base = policy.baseDelayMs * 2 ** attempt;
+  const jitter = base * (policy.jitterPct / 100) * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(base + jitter));
+}
+
+// 再試行で回復が見込めるエラーか
+function isRetryable(errorCode: DetectionErrorCode): boolean {
+  return errorCode === 'HTTP_429' || errorCode === 'HTTP_5XX' || errorCode === 'HTTP_NETWORK_ERROR';
+}
+
+// 1 回分の取得結果
+type FetchAttempt = { response: Response } | { error: SourceFetchError };
+
+// fetch を 1 回実行し、通信失敗・非 2xx を SourceFetchError に変換
+async function fetchOnce(url: string, accept: string): Promise<FetchAttempt> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: accept,
+      },
+    });
+  } catch (error) {
+    return {
+      error: new SourceFetchError(error instanceof Error ? error.message : 'Network error', 'HTTP_NETWORK_ERROR'),
+    };
+  }
+
+  if (!response.ok) {
+    const retryAfterHeader = response.headers.get('Retry-After');
+    return {
+      error: new SourceFetchError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        classifyHttpStatus(response.status),
+        retryAfterHeader ? parseRetryAfter(retryAfterHeader) * 1000 : undefined,
+      ),
+    };
+  }
+  return { response };
+}
+
+// fetch を実行し、失敗時はリトライ方針に従って再試行。最終的に失敗すれば SourceFetchError を投げる
+// Retry-After が待機の上限を超える場合は再試行せずに投げ、延期はブレーカー（呼び出し側）に任せる
+async function fetchOrThrow(url: string, accept: string, policy?: RetryPolicy): Promise<Response> {
+  const maxRetries = policy?.maxRetries ?? 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await fetchOnce(url, accept);
+    if ('response' in result) {
+      return result.response;
+    }
+    const { error } = result;
+    if (!policy || attempt >= maxRetries || !isRetryable(error.errorCode)) {
+      throw error;
+    }
+    if (error.retryAfterMs !== undefined && error.retryAfterMs > policy.maxRetryAfterMs) {
+      console.warn(`Giving up ${url} after ${error.message}: Retry-After ${error.retryAfterMs}ms exceeds the wait limit`);
+      throw error;
+    }
+
+    const delayMs = error.retryAfterMs ?? computeBackoffMs(policy, attempt);
+    console.warn(`Retrying ${url} after ${error.message} (attempt ${attempt + 1}/${maxRetries}, wait ${delayMs}ms)`);
+    await sleep(delayMs);
+  }
+}
 
 // 簡易HTML除去（改行/空白整理含む）
 function stripHtml(raw: string): string {
@@ -106,309 +209,469 @@ function stripHtml(raw: string): string {
     .trim();
 }
 
-// コンテキスト文からリワード名/数量を推定
-function extractReward(text: string): string {
-  const rewardMatches = [
-    /([0-9]+)\s+Golden\s+Keys?/i,
-    /([0-9]+)\s+Diamond\s+Keys?/i,
-    /([0-9]+)\s+Skeleton\s+Keys?/i,
-    /([0-9]+)x\s+Golden\s+Key/i,
-    /([0-9]+)x\s+Diamond\s+Key/i,
-    /([0-9]+)x\s+Skeleton\s+Key/i,
-    /Vault\s+Card/i,
-    /Cosmetic/i,
-  ];
-
-  for (const pattern of rewardMatches) {
-    const match = text.match(pattern);
-    if (match) {
-      if (match.length > 1) {
-        const quantity = match[1];
-        const descriptor = stripHtml(match[0]).replace(quantity, '').trim();
-        return `${quantity} ${descriptor}`.trim();
+function buildNotes(...parts: string[]): string | undefined {
+  const combined = parts.map((part) => part.trim()).filter(Boolean).join(' ').trim();
+  return combined.length ? combined : undefined;
+}
+
+function extractHtmlSnippet(html: string, index: number, length: number): string | undefined {
+  const start = Math.max(0, index - 200);
+  const end = Math.min(html.length, index + length + 200);
+  const snippet = stripHtml(html.slice(start, end));
+  return snippet.length ? snippet : undefined;
+}
+
+// 複数候補キーから最初に見つかった非空文字列を返す
+function pickString(record: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      if (trimmed.length > 0) {
+        return trimmed;
       }
-      return stripHtml(match[0]);
     }
   }
+  return undefined;
+}
 
-  const cleaned = stripHtml(text);
-  return cleaned.length > 0 ? cleaned : 'Unknown';
+// コード文字列を大文字・正規フォーマットへ整形
+export function normalizeShiftCode(raw: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return '';
+  }
+  const replaced = trimmed
+    .replace(/[–—―]/g, '-')
+    .replace(/\s+/g, '-')
+    .replace(/[^A-Z0-9-]/gi, '')
+    .replace(/-+/g, '-');
+  return replaced.toUpperCase();
 }
 
-// コンテキスト文からステータスを推定
-function extractStatus(text: string): CodeStatus {
-  if (/expired/i.test(text)) {
-    return 'Expired';
+// ステータス文字列を標準化（未知は Active）
+function sanitizeStatus(value: string | undefined): CodeStatus {
+  if (!value) {
+    return 'Active';
   }
-  if (/hold/i.test(text)) {
-    return 'Hold';
+  const normalized = value.toString().trim().toLowerCase();
+  return STATUS_LOOKUP[normalized] ?? 'Active';
+}
+
+// 初出日時の決定（解析可能ならその値、不可なら収集時刻）
+function resolveFirstSeenAt(value: string | undefined, fallbackIso: string): string {
+  if (value) {
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) {
+      return toIsoString(new Date(parsed));
+    }
   }
-  return 'Active';
+  return fallbackIso;
 }
 
-// コンテキスト文から期限（ISO）を抽出
-function extractExpiry(text: string): string | null {
-  const cleaned = stripHtml(text.replace(/\(.*?\)/g, '').trim());
+// 期限の正規化（補足括弧を削除してからDate.parse）
+function resolveExpiresAt(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const cleaned = value.replace(/\(.*?\)/g, '').trim();
+  if (!cleaned) {
+    return null;
+  }
   const parsed = Date.parse(cleaned);
-  if (!Number.isNaN(parsed)) {
-    return new Date(parsed).toISOString();
+  if (Number.isNaN(parsed)) {
+    return null;
   }
-  return null;
+  return toIsoString(new Date(parsed));
 }
 
-// コード文字列と併記文から収集レコードを構築
-function buildCodeFromContext(code: string, context: string): CollectedCode {
-  return {
-    code,
-    rewardType: extractReward(context),
-    status: extractStatus(context),
-    expiresAt: extractExpiry(context),
-    firstSeenAt: nowIso(),
-    notes: context,
-    isFallback: false,
+// ドラフトからメタデータを構築（空なら undefined）
+function buildMetadata(draft: CollectedCode): ShiftCode['metadata'] | undefined {
+  const metadata: ShiftCode['metadata'] = {};
+  if (draft.url) {
+    metadata.url = draft.url;
+  }
+  if (draft.notes) {
+    metadata.notes = draft.notes;
+  }
+  if (typeof draft.isFallback === 'boolean') {
+    metadata.isFallback = draft.isFallback;
+  }
+  return Object.keys(metadata).length ? metadata : undefined;
+}
+
+/**
+ * ドラフト1件をShiftCodeに変換（タイトルのコード形式を満たさなければ null）。
+ * sourceName が null（ソースを経由しない手動登録）の場合、検出ソースは空にする。
+ */
+export async function draftToShiftCode(
+  sourceName: SourceName | null,
+  draft: CollectedCode,
+  collectedAt: Date,
+  game: GameId = DEFAULT_GAME,
+): Promise<ShiftCode | null> {
+  const normalized = normalizeShiftCode(draft.code);
+  if (!games[game].codePattern.test(normalized)) {
+    return null;
+  }
+
+  const collectedIso = toIsoString(collectedAt);
+  const firstSeenIso = resolveFirstSeenAt(draft.firstSeenAt, collectedIso);
+  const expiresIso = resolveExpiresAt(draft.expiresAt);
+  const rewardType = draft.rewardType && draft.rewardType.trim().length > 0 ? draft.rewardType.trim() : 'Unknown';
+  const status = sanitizeStatus(draft.status);
+  const metadata = buildMetadata(draft);
+  const hash = await hashCode(`${game}:${normalized}`);
+
+  const code: ShiftCode = {
+    id: crypto.randomUUID(),
+    title: game,
+    codeText: normalized,
+    normalizedCodeText: normalized,
+    rewardType,
+    reward: normalizeReward(rewardType),
+    expiresAt: expiresIso,
+    firstSeenAt: firstSeenIso,
+    status,
+    sources: sourceName ? [sourceName] : [],
+    hash,
+    createdAt: collectedIso,
+    updatedAt: collectedIso,
   };
+
+  if (draft.platforms?.length) {
+    code.platforms = normalizePlatforms(draft.platforms);
+  }
+  if (metadata) {
+    code.metadata = metadata;
+  }
+
+  return code;
 }
 
 /**
- * PC Gamer 記事をスクレイピングしてコード候補を抽出。
- * テーブル優先、なければ全体から正規表現で後方互換的に抽出。
+ * 複数ドラフトをShiftCode配列へ。重複(hash)は情報をマージして除去し、不正な候補は rejected に積む。
+ * 全アダプター共通の normalize 段階。
  */
-async function fetchPcGamerShiftCodes(url?: string): Promise<CollectedCode[]> {
-  const targetUrl = url ?? DEFAULT_PC_GAMER_URL;
-  const response = await fetch(targetUrl, {
-    headers: {
-      'User-Agent': 'shift-code-monitor-worker/1.0',
-      Accept: 'text/html,application/xhtml+xml',
-    },
-  });
+export async function normalizeCollectedCodes(
+  sourceName: SourceName,
+  drafts: CollectedCode[],
+  collectedAt: Date,
+  game: GameId = DEFAULT_GAME,
+): Promise<SourceNormalizeResult> {
+  if (!drafts.length) {
+    return { codes: [], rejected: [] };
+  }
 
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}`);
+  const results = await Promise.all(drafts.map((draft) => draftToShiftCode(sourceName, draft, collectedAt, game)));
+  const deduped = new Map<string, ShiftCode>();
+  const rejected: RejectedCandidate[] = [];
+
+  for (const [index, code] of results.entries()) {
+    if (!code) {
+      rejected.push({ code: drafts[index].code, errorCode: 'VALIDATION_INVALID_FORMAT' });
+      continue;
+    }
+    const existing = deduped.get(code.hash);
+    if (existing) {
+      existing.sources = ensureUnique([...existing.sources, ...code.sources]);
+      if (existing.reward.kind === 'Unknown' && code.reward.kind !== 'Unknown') {
+        existing.rewardType = code.rewardType;
+        existing.reward = code.reward;
+      }
+      if (!existing.expiresAt && code.expiresAt) {
+        existing.expiresAt = code.expiresAt;
+      }
+      const platforms = mergePlatforms(existing.platforms, code.platforms);
+      if (platforms) {
+        existing.platforms = platforms;
+      }
+      if (!existing.metadata?.url && code.metadata?.url) {
+        existing.metadata = { ...existing.metadata, url: code.metadata.url };
+      }
+      if (!existing.metadata?.notes && code.metadata?.notes) {
+        existing.metadata = { ...existing.metadata, notes: code.metadata.notes };
+      }
+      continue;
+    }
+    deduped.set(code.hash, code);
+  }
+
+  return { codes: Array.from(deduped.values()), rejected };
+}
+
+/**
+ * JSONフィードの parse 段階。
+ * - 配列 or { codes: [...] } の2形をサポート
+ */
+function parseJsonFeed(payload: unknown, url: string): SourceParseResult {
+  const entries: unknown[] | null = Array.isArray(payload)
+    ? (payload as unknown[])
+    : Array.isArray((payload as Record<string, unknown>)?.codes)
+    ? ((payload as Record<string, unknown>).codes as unknown[])
+    : null;
+
+  if (!entries) {
+    throw new SourceFetchError('Unexpected feed format', 'PARSE_UNEXPECTED_FORMAT');
+  }
+
+  const drafts: CollectedCode[] = [];
+  const rejected: RejectedCandidate[] = [];
+
+  for (const rawEntry of entries) {
+    if (!rawEntry || typeof rawEntry !== 'object') {
+      rejected.push({ errorCode: 'PARSE_UNEXPECTED_FORMAT' });
+      continue;
+    }
+    const record = rawEntry as Record<string, unknown>;
+    const code = pickString(record, ['code', 'code_text', 'shiftCode', 'shift_code']);
+    if (!code) {
+      rejected.push({ errorCode: 'VALIDATION_MISSING_CODE' });
+      continue;
+    }
+
+    const platforms = parsePlatformField(record.platforms ?? record.platform);
+    drafts.push({
+      code,
+      rewardType: pickString(record, ['rewardType', 'reward_type', 'reward', 'description']),
+      platforms: platforms.length ? platforms : undefined,
+      status: pickString(record, ['status']),
+      expiresAt: pickString(record, ['expiresAt', 'expires_at', 'expires']),
+      firstSeenAt: pickString(record, ['firstSeenAt', 'first_seen_at']),
+      url: pickString(record, ['url']) ?? url,
+      notes: pickString(record, ['notes']),
+      isFallback: false,
+    });
   }
 
-  const html = await response.text();
-  const codesById = new Map<string, CollectedCode>();
+  return { drafts, rejected, notes: `entries=${entries.length}` };
+}
 
-  const activeTableMatch = html.match(
-    /<caption[^>]*>\s*Active Borderlands 4 Shift codes\s*<\/caption>[\s\S]*?<\/table>/i,
-  );
+// 正規表現の特殊文字をエスケープ
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
-  if (activeTableMatch) {
-    const tableHtml = activeTableMatch[0];
+/**
+ * PC Gamer のシフトコード記事の parse 段階。
+ * タイトルに有効コード表の見出しが定義されていれば表を優先し、なければ全体から正規表現で後方互換的に抽出。
+ */
+function parsePcGamerHtml(html: string, url: string, game: GameId): SourceParseResult {
+  const drafts: CollectedCode[] = [];
+  const { codeFinder, listingCaption } = games[game];
+
+  const tableMatch = listingCaption
+    ? html.match(
+        new RegExp(`<caption[^>]*>\\s*${escapeRegExp(listingCaption)}\\s*<\\/caption>[\\s\\S]*?<\\/table>`, 'i'),
+      )
+    : null;
+  if (tableMatch) {
     const rowRegex = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
     let rowMatch: RegExpExecArray | null;
 
-    while ((rowMatch = rowRegex.exec(tableHtml)) !== null) {
+    while ((rowMatch = rowRegex.exec(tableMatch[0])) !== null) {
       const rowHtml = rowMatch[1];
       if (/table__head__row/i.test(rowHtml)) {
         continue;
       }
 
-      const cellMatches = [...rowHtml.matchAll(/<td[^>]*>([\s\S]*?)<\/td>/gi)];
-      if (!cellMatches.length) {
-        continue;
-      }
-
-      const cells = cellMatches.map((cell) => stripHtml(cell[1]));
+      const cells = [...rowHtml.matchAll(/<td[^>]*>([\s\S]*?)<\/td>/gi)].map((match) => stripHtml(match[1]));
       if (cells.length < 3) {
         continue;
       }
 
       const expiryText = cells[0];
       const rewardText = cells[1];
-      const codeText = cells[2];
-      const codeMatches = codeText.match(SHIFT_CODE_REGEX);
-      if (!codeMatches) {
+      const codeCellText = cells[2];
+      const candidates = codeCellText.toUpperCase().match(codeFinder);
+      if (!candidates) {
         continue;
       }
 
-      for (const code of codeMatches) {
-        const normalized = code.toUpperCase();
-        if (codesById.has(normalized)) {
-          continue;
-        }
-        const context = `${expiryText} ${rewardText}`;
-        codesById.set(normalized, {
-          code: normalized,
-          rewardType: extractReward(rewardText),
+      // 期限・報酬の記載や追加の列に「PC only」などの注記があれば引き換え範囲として拾う
+      const platforms = extractPlatforms([expiryText, rewardText, ...cells.slice(3)].join(' '));
+      for (const candidate of candidates) {
+        drafts.push({
+          code: candidate,
+          // 報酬は列の表記をそのまま元の表記とし、種別・数量は normalize 段階で求める
+          rewardType: rewardText,
+          platforms: platforms.length ? platforms : undefined,
           status: 'Active',
-          expiresAt: extractExpiry(expiryText),
-          firstSeenAt: nowIso(),
-          url: targetUrl,
-          notes: context,
+          expiresAt: expiryText,
+          url,
+          notes: buildNotes(expiryText, rewardText),
           isFallback: false,
         });
       }
     }
   }
 
-  if (!codesById.size) {
-    let regexMatch: RegExpExecArray | null;
-    while ((regexMatch = SHIFT_CODE_REGEX.exec(html)) !== null) {
-      const code = regexMatch[0].toUpperCase();
-      if (codesById.has(code)) {
-        continue;
-      }
-      const start = Math.max(0, regexMatch.index - 200);
-      const end = Math.min(html.length, regexMatch.index + code.length + 200);
-      const snippet = stripHtml(html.slice(start, end));
-      codesById.set(code, {
-        ...buildCodeFromContext(code, snippet),
-        url: targetUrl,
+  const usedFallback = !drafts.length;
+  if (usedFallback) {
+    const fallbackRegex = new RegExp(codeFinder.source, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = fallbackRegex.exec(html)) !== null) {
+      const code = match[0];
+      drafts.push({
+        code,
+        rewardType: 'Unknown',
+        status: 'Active',
+        notes: extractHtmlSnippet(html, match.index, code.length),
+        url,
+        isFallback: false,
       });
     }
   }
 
-  return Array.from(codesById.values());
+  const notes = tableMatch
+    ? usedFallback
+      ? 'table found without codes; used page-wide scan'
+      : 'parsed active codes table'
+    : 'table not found; used page-wide scan';
+  // 表から取得できた場合のみ掲載一覧として扱う（全文走査の結果は一覧の根拠にならない）
+  return { drafts, rejected: [], notes, listing: Boolean(tableMatch) && !usedFallback };
 }
 
 /**
- * JSONフィードから `CollectedCode[]` を構築。
- * - 配列 or { codes: [...] } の2形をサポート
+ * JSON フィード形式のソースアダプターを生成する。
  */
-async function fetchJsonFeed(url: string): Promise<CollectedCode[]> {
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': 'shift-code-monitor-worker/1.0',
-      Accept: 'application/json',
+function createJsonFeedAdapter(game: GameId, id: SourceName): SourceAdapter<unknown> {
+  return {
+    id,
+    game,
+    sampleCodes: game === DEFAULT_GAME ? SAMPLE_CODES[id] : [],
+    async fetch(url, context) {
+      const response = await fetchOrThrow(url, 'application/json', context.retry);
+      try {
+        return await response.json();
+      } catch (error) {
+        throw new SourceFetchError(
+          error instanceof Error ? error.message : 'Invalid JSON',
+          'PARSE_INVALID_JSON',
+        );
+      }
     },
-  });
+    parse: parseJsonFeed,
+    normalize: (drafts, collectedAt) => normalizeCollectedCodes(id, drafts, collectedAt, game),
+  };
+}
 
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}`);
-  }
+/**
+ * PC Gamer 記事（HTML）のソースアダプターを生成する。
+ */
+function createPcGamerAdapter(game: GameId): SourceAdapter<string> {
+  return {
+    id: 'MEDIA_TRUSTED',
+    game,
+    sampleCodes: game === DEFAULT_GAME ? SAMPLE_CODES.MEDIA_TRUSTED : [],
+    async fetch(url, context) {
+      const response = await fetchOrThrow(url, 'text/html,application/xhtml+xml', context.retry);
+      return response.text();
+    },
+    parse: (html, url) => parsePcGamerHtml(html, url, game),
+    normalize: (drafts, collectedAt) => normalizeCollectedCodes('MEDIA_TRUSTED', drafts, collectedAt, game),
+  };
+}
 
-  const body = await response.json();
-  if (Array.isArray(body)) {
-    return body
-      .map((entry) => normalizeEntry(entry as Record<string, unknown>))
-      .filter(Boolean) as CollectedCode[];
-  }
+/**
+ * タイトルごとのソース ID をキーにしたアダプターのレジストリ。
+ */
+export const sourceAdapters = Object.fromEntries(
+  (Object.keys(games) as GameId[]).map((game) => [
+    game,
+    {
+      OFFICIAL_SITE: createJsonFeedAdapter(game, 'OFFICIAL_SITE'),
+      OFFICIAL_X: createJsonFeedAdapter(game, 'OFFICIAL_X'),
+      MEDIA_TRUSTED: createPcGamerAdapter(game) as SourceAdapter,
+      COMMUNITY_AUX: createJsonFeedAdapter(game, 'COMMUNITY_AUX'),
+    },
+  ]),
+) as Record<GameId, Record<SourceName, SourceAdapter>>;
 
-  const candidate = (body as Record<string, unknown>).codes;
-  if (Array.isArray(candidate)) {
-    return candidate
-      .map((entry: unknown) => normalizeEntry(entry as Record<string, unknown>))
-      .filter(Boolean) as CollectedCode[];
-  }
+/**
+ * アダプターの取得先 URL をタイトルのソース設定から解決する。
+ * 既定 URL（PC Gamer など）は `useDefaultUrl` を指定した場合（CLI）のみ使い、監視実行では明示的に指定されたソースだけを取得する。
+ */
+export function resolveSourceUrl(env: WorkerEnv, adapter: SourceAdapter, useDefaultUrl = false): string | null {
+  return resolveGameSourceUrl(env, adapter.game, adapter.id, useDefaultUrl);
+}
 
-  throw new Error('Unexpected feed format');
+/**
+ * 監視対象タイトル（`GAMES_ENABLED`）のアダプターをすべて返す。
+ */
+export function listGameAdapters(env: WorkerEnv): SourceAdapter[] {
+  return resolveEnabledGames(env).flatMap((game) => Object.values(sourceAdapters[game]));
 }
 
-// JSONの1エントリを正規化（不足項目は既定で補完）
-function normalizeEntry(entry: Record<string, unknown>): CollectedCode | null {
-  const code =
-    typeof entry.code === 'string'
-      ? entry.code
-      : typeof entry.code_text === 'string'
-      ? entry.code_text
-      : null;
-  if (!code) {
-    return null;
-  }
-  const reward =
-    typeof entry.rewardType === 'string'
-      ? entry.rewardType
-      : typeof entry.reward_type === 'string'
-      ? (entry.reward_type as string)
-      : 'Unknown';
-  const status =
-    typeof entry.status === 'string' && ['Active', 'Expired', 'Hold'].includes(entry.status)
-      ? (entry.status as CollectedCode['status'])
-      : 'Active';
-  const expiresAt =
-    typeof entry.expiresAt === 'string'
-      ? (entry.expiresAt as string)
-      : typeof entry.expires_at === 'string'
-      ? (entry.expires_at as string)
-      : null;
-  const firstSeenAt =
-    typeof entry.firstSeenAt === 'string'
-      ? (entry.firstSeenAt as string)
-      : typeof entry.first_seen_at === 'string'
-      ? (entry.first_seen_at as string)
-      : undefined;
-  const url = typeof entry.url === 'string' ? entry.url : undefined;
-  const notes = typeof entry.notes === 'string' ? entry.notes : undefined;
-  return {
-    code,
-    rewardType: reward,
-    status,
-    expiresAt,
-    firstSeenAt,
-    url,
-    notes,
-    isFallback: false,
-  };
+/**
+ * 監視対象タイトルのうち、`SOURCES_WHITELIST` で許可されたアダプターを返す（未設定なら全ソース）。
+ */
+export function listEnabledAdapters(env: WorkerEnv): SourceAdapter[] {
+  const allSources = Object.keys(SAMPLE_CODES) as SourceName[];
+  const whitelist = new Set(parseWhitelist(env.SOURCES_WHITELIST, allSources));
+  return listGameAdapters(env).filter((adapter) => whitelist.has(adapter.id));
 }
 
 /**
- * ソース別フェッチャーの実体。
- * - MEDIA_TRUSTED は PC Gamer HTML パース
- * - その他は JSON フィード
- * - 失敗時はフォールバックサンプルに切替
+ * アダプター実行時のオプション。
+ * - fallbackToSamples: URL 未設定・取得失敗時にサンプルコードを返す（CLI 用）
+ * - useDefaultUrl: URL 未設定のソースはタイトル定義の既定 URL から取得する（CLI 用）
  */
-async function runSourceFetcher(
+export interface RunSourceAdapterOptions {
+  fallbackToSamples?: boolean;
+  useDefaultUrl?: boolean;
+}
+
+/**
+ * アダプターを fetch → parse → normalize の順に実行する。
+ * fallbackToSamples が無効な場合、取得・解析の失敗は SourceFetchError として呼び出し元へ伝播する。
+ */
+export async function runSourceAdapter(
   env: WorkerEnv,
-  source: SourceName,
+  adapter: SourceAdapter,
   context: SourceFetchContext,
+  options: RunSourceAdapterOptions = {},
 ): Promise<SourceFetchResult> {
-  const config = SOURCE_CONFIG[source];
-  const url = (env as unknown as Record<string, string | undefined>)[config.envKey];
-  let http429 = 0;
-  let http5xx = 0;
-
-  if (source === 'MEDIA_TRUSTED') {
-    try {
-      const codes = await fetchPcGamerShiftCodes(url);
-      return { source, codes, http429, http5xx };
-    } catch (error) {
-      if (error instanceof Error && error.message.startsWith('HTTP ')) {
-        if (error.message.includes('429')) {
-          http429 += 1;
-        }
-        if (error.message.match(/5\d{2}/)) {
-          http5xx += 1;
-        }
-      }
-      console.error(`Failed to fetch media source ${url ?? DEFAULT_PC_GAMER_URL}`, error);
+  const url = resolveSourceUrl(env, adapter, options.useDefaultUrl);
+  if (!url && !options.fallbackToSamples) {
+    throw new SourceFetchError(`No URL configured for ${adapter.game}/${adapter.id}`, 'UNEXPECTED_ERROR');
+  }
+
+  try {
+    if (!url) {
+      return buildSampleResult(adapter, null);
     }
-  } else if (url) {
-    try {
-      const codes = await fetchJsonFeed(url);
-      return { source, codes, http429, http5xx };
-    } catch (error) {
-      if (error instanceof Error && error.message.startsWith('HTTP ')) {
-        if (error.message.includes('429')) {
-          http429 += 1;
-        }
-        if (error.message.match(/5\d{2}/)) {
-          http5xx += 1;
-        }
-      }
-      console.error(`Failed to fetch ${url}`, error);
+    const payload = await adapter.fetch(url, { ...context, retry: context.retry ?? resolveRetryPolicy(env) });
+    const parsed = adapter.parse(payload, url);
+    const normalized = await adapter.normalize(parsed.drafts, new Date());
+    return {
+      source: adapter.id,
+      game: adapter.game,
+      url,
+      codes: normalized.codes,
+      rejected: [...parsed.rejected, ...normalized.rejected],
+      notes: parsed.notes,
+      listingHashes: parsed.listing ? normalized.codes.map((code) => code.hash) : undefined,
+    };
+  } catch (error) {
+    if (!options.fallbackToSamples) {
+      throw error;
     }
+    console.error(`Failed to fetch ${adapter.game}/${adapter.id} (${url}), using sample codes`, error);
+    return buildSampleResult(adapter, url);
   }
+}
 
-  const fallback = config.defaultCodes.map((entry) => ({
-    ...entry,
-    firstSeenAt: entry.firstSeenAt ?? nowIso(),
-    isFallback: true,
-  }));
+// サンプルコードを normalize 段階に通して収集結果の形にする
+async function buildSampleResult(adapter: SourceAdapter, url: string | null): Promise<SourceFetchResult> {
+  const samples = adapter.sampleCodes.map((entry) => ({ ...entry, isFallback: true }));
+  const normalized = await adapter.normalize(samples, new Date());
   return {
-    source,
-    codes: fallback,
-    http429,
-    http5xx,
+    source: adapter.id,
+    game: adapter.game,
+    url,
+    codes: normalized.codes,
+    rejected: normalized.rejected,
+    notes: 'sample codes',
   };
 }
-
-export const sourceFetchers: Record<SourceName, SourceFetcher> = {
-  OFFICIAL_SITE: (env, context) => runSourceFetcher(env, 'OFFICIAL_SITE', context),
-  OFFICIAL_X: (env, context) => runSourceFetcher(env, 'OFFICIAL_X', context),
-  MEDIA_TRUSTED: (env, context) => runSourceFetcher(env, 'MEDIA_TRUSTED', context),
-  COMMUNITY_AUX: (env, context) => runSourceFetcher(env, 'COMMUNITY_AUX', context),
-};
-
-
-
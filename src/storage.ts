@@ -4,22 +4,86 @@
  * - 旧KVストレージからの読み替えと移行処理もここで吸収する
  */
 import type {
+  ApiKeyRecord,
+  ChangeActor,
+  CircuitBreakerRecord,
+  CodeChange,
+  CodeStatus,
   DetectionLog,
+  DigestPeriod,
+  DigestState,
+  GameId,
   NotificationLog,
+  RunLease,
   RunMetrics,
   ShiftCode,
+  SourceListingSnapshot,
   SourceName,
   SourceTrustRecord,
+  Submission,
+  SubmissionStatus,
+  Subscriber,
 } from './models';
 import type { WorkerEnv } from './env';
+import { DEFAULT_GAME, isGameId } from './games';
+import { normalizeReward } from './rewards';
+import { diffCodes } from './changes';
+import { hashCode, toIsoString } from './utils';
 
 const CODE_PREFIX = 'codes/';
+// 検知・通知ログは 1 件ずつ UTC の日付で区切り `logs/<種別>/<YYYY-MM-DD>/<ISO 日時>_<ID>.json` に保存し、
+// 圧縮後は日次の NDJSON（`logs/archive/<種別>/<YYYY-MM-DD>.ndjson`）にまとめる
 const DETECTION_PREFIX = 'logs/detection/';
 const NOTIFICATION_PREFIX = 'logs/notification/';
+const LOG_ARCHIVE_PREFIX = 'logs/archive/';
+const SUBSCRIBER_PREFIX = 'subscribers/';
+const SUBMISSION_PREFIX = 'submissions/';
+// 変更履歴は同じ内容をコード別（`changes/code/<codeId>/`）と時系列（`changes/time/`）の 2 か所に保存する
+// キーは `<ISO 日時>_<変更 ID>.json` とし、キー順が時刻順になるようにする
+const CHANGE_PREFIX = 'changes/';
+const CHANGE_BY_CODE_PREFIX = 'changes/code/';
+const CHANGE_BY_TIME_PREFIX = 'changes/time/';
 const METRICS_KEY = 'state/metrics.json';
+const RUN_LEASE_KEY = 'state/run-lease.json';
+// 保存済みコードの件数（新規保存のたびに加算。未作成なら初回の countCodes で数えて作る）
+const CODE_COUNT_KEY = 'state/code-count.json';
+const METRICS_HISTORY_PREFIX = 'state/metrics-history/';
+// 実行履歴を保持する日数（これより古い日次ファイルは削除）
+const METRICS_HISTORY_RETENTION_DAYS = 30;
 const TRUST_PREFIX = 'state/trust/';
 const SOURCE_STATE_PREFIX = 'state/source/';
+const SOURCE_LISTING_PREFIX = 'state/source-listing/';
+const BREAKER_PREFIX = 'state/breaker/';
+const DIGEST_PREFIX = 'state/digest/';
+const API_KEY_PREFIX = 'state/api-keys/';
 const MIGRATION_MARKER_KEY = 'state/migration-complete';
+const GAME_MIGRATION_MARKER_KEY = 'state/migration-games-complete';
+const REWARD_MIGRATION_MARKER_KEY = 'state/migration-rewards-complete';
+const INDEX_MIGRATION_MARKER_KEY = 'state/migration-indexes-complete';
+const SUBMISSION_INDEX_MIGRATION_MARKER_KEY = 'state/migration-submission-indexes-complete';
+// コードの二次インデックス（本体は `codes/<id>.json`）
+// - hash: `index/hash/<hash>` に ID を保存（同一性判定の引き当て）
+// - status: `index/status/<status>/<id>`（中身は空、キーの一覧で引く）
+// - first-seen: `index/first-seen/<YYYY-MM-DD>/<id>`（初出日、UTC）
+const INDEX_PREFIX = 'index/';
+const HASH_INDEX_PREFIX = 'index/hash/';
+const STATUS_INDEX_PREFIX = 'index/status/';
+const FIRST_SEEN_INDEX_PREFIX = 'index/first-seen/';
+// 審査待ちの投稿（キーは候補コードのハッシュ、本文は投稿 ID）
+const PENDING_SUBMISSION_INDEX_PREFIX = 'index/submission-pending/';
+// 投稿の状態別の一覧: `index/submission-status/<status>/<日時>_<id>`（中身は空。審査待ちは投稿日時、審査済みは審査日時）
+const SUBMISSION_STATUS_INDEX_PREFIX = 'index/submission-status/';
+// 接続元ごとの審査待ちの投稿: `index/submission-client/<接続元のハッシュ>/<id>`（中身は空）
+const SUBMISSION_CLIENT_INDEX_PREFIX = 'index/submission-client/';
+
+/**
+ * タイトル × ソース単位の状態のキー。BL4 はタイトル導入前のキーをそのまま使う。
+ */
+function sourceStateKey(prefix: string, source: SourceName, game: GameId | undefined, extension: string): string {
+  return !game || game === DEFAULT_GAME
+    ? `${prefix}${source}.${extension}`
+    : `${prefix}${game}/${source}.${extension}`;
+}
 
 /**
  * R2からJSONを読み出し、存在しなければnullを返す。
@@ -51,8 +115,27 @@ async function deleteByPrefix(env: WorkerEnv, prefix: string): Promise<void> {
   while (true) {
     const listing = await env.R2.list({ prefix, cursor });
     if (listing.objects.length) {
-      await Promise.all(listing.objects.map((object) => env.R2.delete(object.key)));
+      await env.R2.delete(listing.objects.map((object) => object.key));
+    }
+    if (!listing.truncated) {
+      break;
+    }
+    cursor = (listing as unknown as { cursor?: string }).cursor;
+    if (!cursor) {
+      break;
     }
+  }
+}
+
+/**
+ * プレフィックス以下のキーを一覧する（中身は読まない）。
+ */
+async function listKeysByPrefix(env: WorkerEnv, prefix: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  while (true) {
+    const listing = await env.R2.list({ prefix, cursor });
+    keys.push(...listing.objects.map((object) => object.key));
     if (!listing.truncated) {
       break;
     }
@@ -61,6 +144,54 @@ async function deleteByPrefix(env: WorkerEnv, prefix: string): Promise<void> {
       break;
     }
   }
+  return keys;
+}
+
+// 初出日インデックスのキー（解釈できない日時は先頭側にまとめる。論理削除済みは載せない）
+function firstSeenIndexKey(code: ShiftCode): string | null {
+  if (code.deletedAt) {
+    return null;
+  }
+  const time = Date.parse(code.firstSeenAt);
+  const date = Number.isNaN(time) ? '0000-00-00' : new Date(time).toISOString().slice(0, 10);
+  return `${FIRST_SEEN_INDEX_PREFIX}${date}/${code.id}`;
+}
+
+// 状態インデックスのキー（論理削除済みは載せない）
+function statusIndexKey(code: ShiftCode): string | null {
+  return code.deletedAt ? null : `${STATUS_INDEX_PREFIX}${code.status}/${code.id}`;
+}
+
+/**
+ * コードの保存に合わせて二次インデックスを更新する（変わった項目のみ書き換え、古いキーは削除）。
+ * 論理削除済みのコードは状態・初出日インデックスから外し、ハッシュインデックスには残す（再収集時の重複判定用）。
+ */
+async function updateCodeIndexes(env: WorkerEnv, code: ShiftCode, previous: ShiftCode | null): Promise<void> {
+  const writes: Array<Promise<unknown>> = [];
+  const putIndex = (key: string, body: string) =>
+    env.R2.put(key, body, { httpMetadata: { contentType: 'text/plain' } });
+
+  if (previous?.hash !== code.hash) {
+    writes.push(putIndex(`${HASH_INDEX_PREFIX}${code.hash}`, code.id));
+    if (previous?.hash) {
+      writes.push(env.R2.delete(`${HASH_INDEX_PREFIX}${previous.hash}`));
+    }
+  }
+  for (const keyOf of [statusIndexKey, firstSeenIndexKey]) {
+    const key = keyOf(code);
+    const previousKey = previous ? keyOf(previous) : null;
+    if (previousKey === key) {
+      continue;
+    }
+    if (key) {
+      writes.push(putIndex(key, ''));
+    }
+    if (previousKey) {
+      writes.push(env.R2.delete(previousKey));
+    }
+  }
+
+  await Promise.all(writes);
 }
 
 // KV→R2移行を一度だけ実行するためのフラグ。
@@ -115,6 +246,149 @@ async function migrateFromKVIfAvailable(env: WorkerEnv): Promise<void> {
   });
 }
 
+// タイトル導入前のレコード移行を一度だけ実行するためのフラグ。
+let gameMigrationAttempted = false;
+
+/**
+ * タイトル（`title`）導入前に保存されたコードを BL4 のレコードとして移行する（一度だけ）。
+ * - `title` が未設定・未知の値なら BL4 を設定
+ * - ハッシュが欠けていれば `BL4:<正規化コード>` で補う
+ */
+async function migrateCodeGamesIfNeeded(env: WorkerEnv): Promise<void> {
+  if (gameMigrationAttempted) {
+    return;
+  }
+  gameMigrationAttempted = true;
+
+  const marker = await env.R2.get(GAME_MIGRATION_MARKER_KEY);
+  if (marker) {
+    return;
+  }
+
+  let migrated = 0;
+  let cursor: string | undefined;
+  while (true) {
+    const listing = await env.R2.list({ prefix: CODE_PREFIX, cursor });
+    for (const object of listing.objects) {
+      const code = await getJsonFromR2<ShiftCode>(env, object.key);
+      if (!code || (isGameId(code.title) && code.hash)) {
+        continue;
+      }
+      const title = isGameId(code.title) ? code.title : DEFAULT_GAME;
+      await putJsonToR2(env, object.key, {
+        ...code,
+        title,
+        hash: code.hash || (await hashCode(`${title}:${code.normalizedCodeText}`)),
+      });
+      migrated++;
+    }
+    if (!listing.truncated) {
+      break;
+    }
+    cursor = (listing as unknown as { cursor?: string }).cursor;
+    if (!cursor) {
+      break;
+    }
+  }
+
+  if (migrated) {
+    console.log(`Migrated ${migrated} codes to ${DEFAULT_GAME}`);
+  }
+  await env.R2.put(GAME_MIGRATION_MARKER_KEY, 'ok', {
+    httpMetadata: { contentType: 'text/plain' },
+  });
+}
+
+// 報酬の構造化前のレコード移行を一度だけ実行するためのフラグ。
+let rewardMigrationAttempted = false;
+
+/**
+ * 報酬の構造化（`reward`）導入前に保存されたコードに、元の表記から正規化した報酬を補う（一度だけ）。
+ */
+async function migrateCodeRewardsIfNeeded(env: WorkerEnv): Promise<void> {
+  if (rewardMigrationAttempted) {
+    return;
+  }
+  rewardMigrationAttempted = true;
+
+  const marker = await env.R2.get(REWARD_MIGRATION_MARKER_KEY);
+  if (marker) {
+    return;
+  }
+
+  let migrated = 0;
+  let cursor: string | undefined;
+  while (true) {
+    const listing = await env.R2.list({ prefix: CODE_PREFIX, cursor });
+    for (const object of listing.objects) {
+      const code = await getJsonFromR2<ShiftCode>(env, object.key);
+      if (!code || code.reward) {
+        continue;
+      }
+      await putJsonToR2(env, object.key, { ...code, reward: normalizeReward(code.rewardType) });
+      migrated++;
+    }
+    if (!listing.truncated) {
+      break;
+    }
+    cursor = (listing as unknown as { cursor?: string }).cursor;
+    if (!cursor) {
+      break;
+    }
+  }
+
+  if (migrated) {
+    console.log(`Migrated rewards of ${migrated} codes`);
+  }
+  await env.R2.put(REWARD_MIGRATION_MARKER_KEY, 'ok', {
+    httpMetadata: { contentType: 'text/plain' },
+  });
+}
+
+// 二次インデックスのバックフィルを一度だけ実行するためのフラグ。
+let indexMigrationAttempted = false;
+
+/**
+ * インデックス導入前に保存されたコードのハッシュ・状態・初出日インデックスを作成する（一度だけ）。
+ * 他の移行でレコードを書き換えた後に実行する。
+ */
+async function migrateCodeIndexesIfNeeded(env: WorkerEnv): Promise<void> {
+  if (indexMigrationAttempted) {
+    return;
+  }
+  indexMigrationAttempted = true;
+
+  const marker = await env.R2.get(INDEX_MIGRATION_MARKER_KEY);
+  if (marker) {
+    return;
+  }
+
+  let indexed = 0;
+  for await (const page of iterateJsonByPrefix<ShiftCode>(env, CODE_PREFIX)) {
+    for (const code of page) {
+      await updateCodeIndexes(env, code, null);
+      indexed++;
+    }
+  }
+
+  if (indexed) {
+    console.log(`Indexed ${indexed} codes`);
+  }
+  await env.R2.put(INDEX_MIGRATION_MARKER_KEY, 'ok', {
+    httpMetadata: { contentType: 'text/plain' },
+  });
+}
+
+/**
+ * コードの保存・読み出しの前に必要な移行（KV→R2、タイトル導入、報酬の構造化、インデックス作成）を済ませる。
+ */
+async function ensureCodesMigrated(env: WorkerEnv): Promise<void> {
+  await migrateFromKVIfAvailable(env);
+  await migrateCodeGamesIfNeeded(env);
+  await migrateCodeRewardsIfNeeded(env);
+  await migrateCodeIndexesIfNeeded(env);
+}
+
 /**
  * コードIDを基にR2かKVからデータを読み込む。
  */
@@ -129,6 +403,8 @@ async function loadShiftCode(env: WorkerEnv, id: string): Promise<ShiftCode | nu
     const kvCode = await env.SHIFT_STATE.get<ShiftCode>(`code:${id}`, 'json');
     if (kvCode) {
       await putJsonToR2(env, key, kvCode);
+      await updateCodeIndexes(env, kvCode, null);
+      await incrementCodeCount(env);
       return kvCode;
     }
   }
@@ -137,121 +413,197 @@ async function loadShiftCode(env: WorkerEnv, id: string): Promise<ShiftCode | nu
 }
 
 /**
- * 値に変更があったときだけR2へ保存する。
+ * 値に変更があったときだけR2へ保存し、二次インデックスと変更履歴を合わせて更新する。
  */
-async function saveShiftCodeIfChanged(env: WorkerEnv, code: ShiftCode): Promise<void> {
+async function saveShiftCodeIfChanged(env: WorkerEnv, code: ShiftCode, actor: ChangeActor): Promise<void> {
   const existing = await loadShiftCode(env, code.id);
   if (existing && JSON.stringify(existing) === JSON.stringify(code)) {
     return;
   }
   await putJsonToR2(env, `${CODE_PREFIX}${code.id}.json`, code);
+  await updateCodeIndexes(env, code, existing);
+  if (!existing) {
+    await incrementCodeCount(env);
+  }
+
+  const changes = diffCodes(existing, code);
+  if (changes.length) {
+    await saveCodeChange(env, {
+      id: crypto.randomUUID(),
+      codeId: code.id,
+      at: toIsoString(new Date()),
+      actor,
+      type: existing ? 'UPDATED' : 'CREATED',
+      changes,
+    });
+  }
 }
 
-export async function saveCode(env: WorkerEnv, code: ShiftCode): Promise<void> {
-  await migrateFromKVIfAvailable(env);
-  await saveShiftCodeIfChanged(env, code);
+// 保存済みコードの件数を 1 増やす（件数が未作成なら何もしない。次の countCodes で数え直す）
+async function incrementCodeCount(env: WorkerEnv): Promise<void> {
+  const current = await getJsonFromR2<{ count: number }>(env, CODE_COUNT_KEY);
+  if (current) {
+    await putJsonToR2(env, CODE_COUNT_KEY, { count: current.count + 1 });
+  }
 }
 
-export async function getCodeById(env: WorkerEnv, id: string): Promise<ShiftCode | null> {
-  await migrateFromKVIfAvailable(env);
-  return loadShiftCode(env, id);
+// 変更履歴をコード別・時系列の両方に保存
+async function saveCodeChange(env: WorkerEnv, change: CodeChange): Promise<void> {
+  const name = `${change.at}_${change.id}.json`;
+  await Promise.all([
+    putJsonToR2(env, `${CHANGE_BY_CODE_PREFIX}${change.codeId}/${name}`, change),
+    putJsonToR2(env, `${CHANGE_BY_TIME_PREFIX}${name}`, change),
+  ]);
 }
 
-export async function getCodeByHash(env: WorkerEnv, hash: string): Promise<ShiftCode | null> {
-  // 現状はID = ハッシュなのでそのまま流用。
-  return getCodeById(env, hash);
+// 更新日時の新しい順（日時を解釈できなければ ID 順）
+function compareByUpdatedDesc(a: ShiftCode, b: ShiftCode): number {
+  const aTime = Date.parse(a.updatedAt ?? a.createdAt);
+  const bTime = Date.parse(b.updatedAt ?? b.createdAt);
+  if (Number.isNaN(aTime) || Number.isNaN(bTime)) {
+    return a.id.localeCompare(b.id);
+  }
+  return bTime - aTime;
 }
 
-export async function listCodes(env: WorkerEnv): Promise<ShiftCode[]> {
-  await migrateFromKVIfAvailable(env);
-  const codes: ShiftCode[] = [];
-  let cursor: string | undefined;
+// ID を指定してまとめて読み込む（見つからないものは除く）
+async function loadShiftCodes(env: WorkerEnv, ids: string[]): Promise<ShiftCode[]> {
+  const loaded = await Promise.all(ids.map((id) => getJsonFromR2<ShiftCode>(env, `${CODE_PREFIX}${id}.json`)));
+  return loaded.filter((code): code is ShiftCode => Boolean(code));
+}
 
-  while (true) {
-    const listing = await env.R2.list({ prefix: CODE_PREFIX, cursor });
-    if (listing.objects.length) {
-      const loaded = await Promise.all(
-        listing.objects.map((object) => getJsonFromR2<ShiftCode>(env, object.key)),
-      );
-      codes.push(...loaded.filter((code): code is ShiftCode => Boolean(code)));
-    }
-    if (!listing.truncated) {
-      break;
-    }
-    cursor = (listing as unknown as { cursor?: string }).cursor;
-    if (!cursor) {
-      break;
-    }
+/**
+ * コードを保存する。変更があれば変更主体（actor）とともに変更履歴を記録する。
+ */
+export async function saveCode(env: WorkerEnv, code: ShiftCode, actor: ChangeActor): Promise<void> {
+  await ensureCodesMigrated(env);
+  await saveShiftCodeIfChanged(env, code, actor);
+}
+
+/**
+ * コードの変更履歴を古い順に返す。
+ */
+export async function listCodeChanges(env: WorkerEnv, codeId: string): Promise<CodeChange[]> {
+  const changes: CodeChange[] = [];
+  for await (const page of iterateJsonByPrefix<CodeChange>(env, `${CHANGE_BY_CODE_PREFIX}${codeId}/`)) {
+    changes.push(...page);
   }
+  return changes.sort((a, b) => a.at.localeCompare(b.at));
+}
 
-  return codes.sort((a, b) => {
-    const aTime = Date.parse(a.updatedAt ?? a.createdAt);
-    const bTime = Date.parse(b.updatedAt ?? b.createdAt);
-    if (Number.isNaN(aTime) || Number.isNaN(bTime)) {
-      return a.id.localeCompare(b.id);
-    }
-    return bTime - aTime;
+/**
+ * 指定日時以降の全コードの変更履歴を古い順に最大 limit 件返す。
+ * 続きがある場合は `cursor` を返し、次の呼び出しに渡すと続きから読み出す。
+ */
+export async function listChangesSince(
+  env: WorkerEnv,
+  since: string,
+  limit: number,
+  cursor?: string,
+): Promise<{ changes: CodeChange[]; cursor?: string }> {
+  const listing = await env.R2.list({
+    prefix: CHANGE_BY_TIME_PREFIX,
+    startAfter: `${CHANGE_BY_TIME_PREFIX}${since}`,
+    limit,
+    cursor,
   });
+  const loaded: Array<CodeChange | null> = await Promise.all(
+    listing.objects.map((object) => getJsonFromR2<CodeChange>(env, object.key)),
+  );
+  const nextCursor = listing.truncated ? (listing as unknown as { cursor?: string }).cursor : undefined;
+  return {
+    changes: loaded.filter((change): change is CodeChange => change !== null),
+    ...(nextCursor ? { cursor: nextCursor } : {}),
+  };
+}
+
+export async function getCodeById(env: WorkerEnv, id: string): Promise<ShiftCode | null> {
+  await ensureCodesMigrated(env);
+  return loadShiftCode(env, id);
 }
 
 /**
- * 検知ログを保存する。必要に応じて上位でUUIDを割り振ってから渡すこと。
+ * ハッシュインデックスからコードを引き当てる（インデックスが古く別のコードを指していれば null）。
  */
-export async function saveDetectionLog(env: WorkerEnv, log: DetectionLog): Promise<void> {
-  await env.R2.put(`${DETECTION_PREFIX}${log.id}.json`, JSON.stringify(log), {
-    httpMetadata: { contentType: 'application/json' },
-  });
+export async function getCodeByHash(env: WorkerEnv, hash: string): Promise<ShiftCode | null> {
+  await ensureCodesMigrated(env);
+  const entry = await env.R2.get(`${HASH_INDEX_PREFIX}${hash}`);
+  if (!entry) {
+    return null;
+  }
+  const code = await loadShiftCode(env, (await entry.text()).trim());
+  return code?.hash === hash ? code : null;
 }
 
-export async function listDetectionLogs(env: WorkerEnv, limit = 100): Promise<DetectionLog[]> {
-  const logs: DetectionLog[] = [];
-  let cursor: string | undefined;
+/**
+ * 状態インデックスから指定状態のコードを読み込む（更新日時の新しい順）。
+ */
+export async function listCodesByStatus(env: WorkerEnv, status: CodeStatus): Promise<ShiftCode[]> {
+  await ensureCodesMigrated(env);
+  const prefix = `${STATUS_INDEX_PREFIX}${status}/`;
+  const ids = (await listKeysByPrefix(env, prefix)).map((key) => key.slice(prefix.length));
+  const codes = await loadShiftCodes(env, ids);
+  return codes.filter((code) => code.status === status && !code.deletedAt).sort(compareByUpdatedDesc);
+}
 
-  while (logs.length < limit) {
-    const listing = await env.R2.list({ prefix: DETECTION_PREFIX, cursor });
-    if (listing.objects.length) {
-      const loaded = await Promise.all(
-        listing.objects.map((object) => getJsonFromR2<DetectionLog>(env, object.key)),
-      );
-      logs.push(...loaded.filter((log): log is DetectionLog => Boolean(log)));
-      if (logs.length >= limit) {
-        break;
-      }
-    }
-    if (!listing.truncated) {
-      break;
-    }
-    cursor = (listing as unknown as { cursor?: string }).cursor;
-    if (!cursor) {
-      break;
-    }
+/**
+ * 状態インデックスから複数の状態のコードを読み込む（更新日時の新しい順。論理削除済みは含まない）。
+ */
+export async function listCodesByStatuses(env: WorkerEnv, statuses: CodeStatus[]): Promise<ShiftCode[]> {
+  const codes: ShiftCode[] = [];
+  for (const status of new Set(statuses)) {
+    codes.push(...(await listCodesByStatus(env, status)));
   }
+  return codes.sort(compareByUpdatedDesc);
+}
 
-  return logs
-    .sort((a, b) => Date.parse(b.fetchedAt) - Date.parse(a.fetchedAt))
-    .slice(0, limit);
+/**
+ * 初出日インデックスを新しい日から順にたどり、1 日分ずつコードを返す（同じ日の中の順序は不定）。
+ * 直近のコードだけが必要な場合に全件を読まずに済ませるためのもの。
+ */
+export async function* iterateCodesByFirstSeenDesc(env: WorkerEnv): AsyncGenerator<ShiftCode[]> {
+  await ensureCodesMigrated(env);
+  const idsByDate = new Map<string, string[]>();
+  for (const key of await listKeysByPrefix(env, FIRST_SEEN_INDEX_PREFIX)) {
+    const [date, id] = key.slice(FIRST_SEEN_INDEX_PREFIX.length).split('/');
+    const ids = idsByDate.get(date) ?? [];
+    ids.push(id);
+    idsByDate.set(date, ids);
+  }
+  const dates = [...idsByDate.keys()].sort().reverse();
+  for (const date of dates) {
+    yield await loadShiftCodes(env, idsByDate.get(date) ?? []);
+  }
 }
 
-export async function saveNotificationLog(env: WorkerEnv, log: NotificationLog): Promise<void> {
-  await env.R2.put(`${NOTIFICATION_PREFIX}${log.id}.json`, JSON.stringify(log), {
-    httpMetadata: { contentType: 'application/json' },
-  });
+/**
+ * 保存済みコードの件数（論理削除済みも含む）。
+ * 新規保存のたびに加算する件数を読むだけで、一覧は件数が未作成のとき（導入直後・リセット後）に一度だけ数える。
+ */
+export async function countCodes(env: WorkerEnv): Promise<number> {
+  await ensureCodesMigrated(env);
+  const stored = await getJsonFromR2<{ count: number }>(env, CODE_COUNT_KEY);
+  if (stored) {
+    return stored.count;
+  }
+  const count = (await listKeysByPrefix(env, CODE_PREFIX)).length;
+  await putJsonToR2(env, CODE_COUNT_KEY, { count });
+  return count;
 }
 
-export async function listNotificationLogs(env: WorkerEnv, limit = 100): Promise<NotificationLog[]> {
-  const logs: NotificationLog[] = [];
+/**
+ * 指定したプレフィックス以下の JSON を一覧のページ単位で読み出す。
+ * 全件をメモリに載せずに走査するためのもので、並び順は R2 のキー順。
+ */
+async function* iterateJsonByPrefix<T>(env: WorkerEnv, prefix: string): AsyncGenerator<T[]> {
   let cursor: string | undefined;
-
-  while (logs.length < limit) {
-    const listing = await env.R2.list({ prefix: NOTIFICATION_PREFIX, cursor });
+  while (true) {
+    const listing = await env.R2.list({ prefix, cursor });
     if (listing.objects.length) {
-      const loaded = await Promise.all(
-        listing.objects.map((object) => getJsonFromR2<NotificationLog>(env, object.key)),
+      const loaded: Array<T | null> = await Promise.all(
+        listing.objects.map((object) => getJsonFromR2<T>(env, object.key)),
       );
-      logs.push(...loaded.filter((log): log is NotificationLog => Boolean(log)));
-      if (logs.length >= limit) {
-        break;
-      }
+      yield loaded.filter((value): value is T => value !== null);
     }
     if (!listing.truncated) {
       break;
@@ -261,50 +613,615 @@ export async function listNotificationLogs(env: WorkerEnv, limit = 100): Promise
       break;
     }
   }
+}
 
-  return logs
-    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
-    .slice(0, limit);
+/**
+ * 保存済みコードをページ単位で走査する（エクスポート用）。
+ */
+export async function* iterateCodes(env: WorkerEnv): AsyncGenerator<ShiftCode[]> {
+  await ensureCodesMigrated(env);
+  yield* iterateJsonByPrefix<ShiftCode>(env, CODE_PREFIX);
 }
 
-export async function getMetrics(env: WorkerEnv): Promise<RunMetrics | null> {
-  const metrics = await getJsonFromR2<RunMetrics>(env, METRICS_KEY);
-  if (metrics) {
-    return metrics;
-  }
+/**
+ * ログの種別。
+ */
+export type LogKind = 'detection' | 'notification';
 
-  if (env.SHIFT_CACHE) {
-    const kvMetrics = await env.SHIFT_CACHE.get<RunMetrics>('metrics:latest', 'json');
-    if (kvMetrics) {
-      await putJsonToR2(env, METRICS_KEY, kvMetrics);
-      return kvMetrics;
-    }
-  }
+/**
+ * ログの期間指定（ISO 日時、両端を含む。未指定側は無制限）。
+ */
+export interface LogRange {
+  since?: string;
+  until?: string;
+}
 
-  return null;
+/**
+ * ログ一覧の取得条件。
+ */
+export interface LogQuery extends LogRange {
+  limit?: number;
 }
 
-export async function saveMetrics(env: WorkerEnv, metrics: RunMetrics): Promise<void> {
-  const existing = await getMetrics(env);
-  if (existing && JSON.stringify(existing) === JSON.stringify(metrics)) {
-    return;
-  }
-  await putJsonToR2(env, METRICS_KEY, metrics);
+/**
+ * ログの圧縮・削除の条件（日付は UTC の YYYY-MM-DD）。
+ * - compactBefore: この日より前の 1 件ずつのログを日次ファイルにまとめる
+ * - deleteBefore: この日より前のログを削除する（null なら削除しない）
+ * - maxEntries: 1 回に取り込む 1 件ずつのログの上限件数
+ * - maxDeletedDays: 1 回に削除する日数の上限
+ */
+export interface LogCompactionOptions {
+  compactBefore: string;
+  deleteBefore: string | null;
+  maxEntries: number;
+  maxDeletedDays: number;
 }
 
-export async function getSourceTrust(env: WorkerEnv, source: SourceName): Promise<SourceTrustRecord | null> {
-  const record = await getJsonFromR2<SourceTrustRecord>(env, `${TRUST_PREFIX}${source}.json`);
-  if (record) {
-    return record;
-  }
-  if (env.SHIFT_CACHE) {
-    const kvRecord = await env.SHIFT_CACHE.get<SourceTrustRecord>(`${source}:trust`, 'json');
-    if (kvRecord) {
-      await putJsonToR2(env, `${TRUST_PREFIX}${source}.json`, kvRecord);
-      return kvRecord;
-    }
-  }
-  return null;
+/**
+ * ログの圧縮・削除の結果。`hasMore` が true なら上限に達して残りがある（次回の実行で続きを処理する）。
+ */
+export interface LogCompactionSummary {
+  kind: LogKind;
+  compactedDays: string[];
+  compactedEntries: number;
+  deletedDays: string[];
+  hasMore: boolean;
+}
+
+// 種別ごとのログの型
+interface LogRecords {
+  detection: DetectionLog;
+  notification: NotificationLog;
+}
+
+// 種別ごとの保存先と時刻の項目
+interface LogDataset<T> {
+  prefix: string;
+  archivePrefix: string;
+  timestamp: (log: T) => string;
+}
+
+const LOG_DATASETS: { [K in LogKind]: LogDataset<LogRecords[K]> } = {
+  detection: {
+    prefix: DETECTION_PREFIX,
+    archivePrefix: `${LOG_ARCHIVE_PREFIX}detection/`,
+    timestamp: (log) => log.fetchedAt,
+  },
+  notification: {
+    prefix: NOTIFICATION_PREFIX,
+    archivePrefix: `${LOG_ARCHIVE_PREFIX}notification/`,
+    timestamp: (log) => log.createdAt,
+  },
+};
+
+// 同時に読み出すオブジェクトの上限（1 回の Promise.all で大量の GET を発行しない）
+const JSON_READ_CONCURRENCY = 50;
+
+/**
+ * 複数のキーの JSON を上限件数ずつ並行して読み出す（結果はキーと同じ順序、存在しなければ null）。
+ */
+async function getJsonBatch<T>(env: WorkerEnv, keys: string[]): Promise<Array<T | null>> {
+  const values: Array<T | null> = [];
+  for (let index = 0; index < keys.length; index += JSON_READ_CONCURRENCY) {
+    values.push(
+      ...(await Promise.all(
+        keys.slice(index, index + JSON_READ_CONCURRENCY).map((key) => getJsonFromR2<T>(env, key)),
+      )),
+    );
+  }
+  return values;
+}
+
+// ログの日付区切り（UTC の YYYY-MM-DD。解釈できない日時は先頭側にまとめる）
+function logDate(timestamp: string): string {
+  const time = Date.parse(timestamp);
+  return Number.isNaN(time) ? '0000-00-00' : new Date(time).toISOString().slice(0, 10);
+}
+
+// 1 件ずつのログのキー（同じ日の中ではキー順が時刻順）
+function logEntryKey<T extends { id: string }>(dataset: LogDataset<T>, log: T): string {
+  const timestamp = dataset.timestamp(log);
+  return `${dataset.prefix}${logDate(timestamp)}/${timestamp}_${log.id}.json`;
+}
+
+// 1 件ずつのログのキーから時刻と ID を読み取る（本体を読まずに期間判定・並べ替えをするため）
+function parseLogEntryKey(key: string): { key: string; timestamp: string; id: string } {
+  const name = key.slice(key.lastIndexOf('/') + 1).replace(/\.json$/, '');
+  const separator = name.lastIndexOf('_');
+  return { key, timestamp: name.slice(0, separator), id: name.slice(separator + 1) };
+}
+
+// 日次ファイルのキー
+function logArchiveKey<T>(dataset: LogDataset<T>, date: string): string {
+  return `${dataset.archivePrefix}${date}.ndjson`;
+}
+
+// 期間内か（日時を解釈できないログは期間指定時のみ除外）
+function isLogWithinRange(timestamp: string, range: LogRange): boolean {
+  if (!range.since && !range.until) {
+    return true;
+  }
+  const time = Date.parse(timestamp);
+  if (Number.isNaN(time)) {
+    return false;
+  }
+  return (!range.since || time >= Date.parse(range.since)) && (!range.until || time <= Date.parse(range.until));
+}
+
+/**
+ * NDJSON を読み出す（存在しなければ空配列。解釈できない行は読み飛ばす）。
+ */
+async function getNdjsonFromR2<T>(env: WorkerEnv, key: string): Promise<T[]> {
+  const object = await env.R2.get(key);
+  if (!object) {
+    return [];
+  }
+  const records: T[] = [];
+  for (const line of (await object.text()).split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      console.warn(`Skipped malformed line in ${key}`);
+    }
+  }
+  return records;
+}
+
+/**
+ * NDJSON を R2 に保存する。
+ */
+async function putNdjsonToR2(env: WorkerEnv, key: string, records: unknown[]): Promise<void> {
+  await env.R2.put(key, records.map((record) => `${JSON.stringify(record)}\n`).join(''), {
+    httpMetadata: {
+      contentType: 'application/x-ndjson',
+    },
+  });
+}
+
+/**
+ * 区切り文字 `/` で一覧し、直下のサブプレフィックスとオブジェクトのキーを返す。
+ */
+async function listDelimited(env: WorkerEnv, prefix: string): Promise<{ prefixes: string[]; keys: string[] }> {
+  const prefixes: string[] = [];
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  while (true) {
+    const listing = await env.R2.list({ prefix, delimiter: '/', cursor });
+    prefixes.push(...listing.delimitedPrefixes);
+    keys.push(...listing.objects.map((object) => object.key));
+    if (!listing.truncated) {
+      break;
+    }
+    cursor = (listing as unknown as { cursor?: string }).cursor;
+    if (!cursor) {
+      break;
+    }
+  }
+  return { prefixes, keys };
+}
+
+// ログの保存状況（日付は昇順）
+interface LogPartitions {
+  dates: string[];                  // 日次ファイル・1 件ずつのログのいずれかがある日
+  entryDates: string[];             // 1 件ずつのログが残っている日
+  archiveDates: string[];           // 日次ファイルがある日
+  legacyKeys: string[];             // 日付区切り導入前のキー（`logs/<種別>/<ID>.json`。圧縮時に日次ファイルへ移す）
+}
+
+// 日付区切り・日次ファイル・日付区切り導入前のキーを一覧する（本体は読まない）
+async function scanLogPartitions<T>(env: WorkerEnv, dataset: LogDataset<T>): Promise<LogPartitions> {
+  const { prefixes, keys } = await listDelimited(env, dataset.prefix);
+  const entryDates = prefixes.map((prefix) => prefix.slice(dataset.prefix.length, -1)).sort();
+  const archiveDates = (await listKeysByPrefix(env, dataset.archivePrefix))
+    .map((key) => key.slice(dataset.archivePrefix.length).replace(/\.ndjson$/, ''))
+    .sort();
+  return {
+    dates: [...new Set([...entryDates, ...archiveDates])].sort(),
+    entryDates,
+    archiveDates,
+    legacyKeys: keys,
+  };
+}
+
+// 日次ファイルと 1 件ずつのログを合わせる（圧縮が途中で止まった場合に備えて ID で重複を除く）
+function mergeLogs<T extends { id: string }>(archived: T[], entries: T[]): T[] {
+  const byId = new Map<string, T>();
+  for (const log of [...archived, ...entries]) {
+    byId.set(log.id, log);
+  }
+  return [...byId.values()];
+}
+
+// 時刻の昇順で並べる比較関数
+function compareLogsAsc<T>(dataset: LogDataset<T>): (a: T, b: T) => number {
+  return (a, b) => dataset.timestamp(a).localeCompare(dataset.timestamp(b));
+}
+
+// 期間に掛かる日に絞る（昇順のまま）
+function filterLogDates(dates: string[], range: LogRange): string[] {
+  const firstDate = range.since ? logDate(range.since) : null;
+  const lastDate = range.until ? logDate(range.until) : null;
+  return dates.filter((date) => (!firstDate || date >= firstDate) && (!lastDate || date <= lastDate));
+}
+
+// 1 日分の期間内のログを新しい順に最大 count 件返す
+// 1 件ずつのログはキーから時刻を読んで並べ、返す分だけ本体を読み出す
+async function loadNewestLogsOfDate<T extends { id: string }>(
+  env: WorkerEnv,
+  dataset: LogDataset<T>,
+  partitions: LogPartitions,
+  date: string,
+  range: LogRange,
+  count: number,
+): Promise<T[]> {
+  const archived = partitions.archiveDates.includes(date)
+    ? (await getNdjsonFromR2<T>(env, logArchiveKey(dataset, date))).filter((log) =>
+        isLogWithinRange(dataset.timestamp(log), range),
+      )
+    : [];
+  const archivedIds = new Set(archived.map((log) => log.id));
+  const entries = partitions.entryDates.includes(date)
+    ? (await listKeysByPrefix(env, `${dataset.prefix}${date}/`))
+        .map(parseLogEntryKey)
+        .filter((entry) => !archivedIds.has(entry.id) && isLogWithinRange(entry.timestamp, range))
+    : [];
+
+  const candidates: Array<{ timestamp: string; log?: T; key?: string }> = [
+    ...archived.map((log) => ({ timestamp: dataset.timestamp(log), log })),
+    ...entries.map((entry) => ({ timestamp: entry.timestamp, key: entry.key })),
+  ]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, count);
+  const keys = candidates.flatMap((candidate) => (candidate.key ? [candidate.key] : []));
+  const loaded = await getJsonBatch<T>(env, keys);
+  const byKey = new Map(keys.map((key, index) => [key, loaded[index]]));
+  return candidates
+    .map((candidate) => candidate.log ?? (candidate.key ? byKey.get(candidate.key) : null) ?? null)
+    .filter((log): log is T => log !== null);
+}
+
+// 1 日分のログをすべて読み出す（時刻順）
+async function loadLogsOfDate<T extends { id: string }>(
+  env: WorkerEnv,
+  dataset: LogDataset<T>,
+  partitions: LogPartitions,
+  date: string,
+): Promise<T[]> {
+  const archived = partitions.archiveDates.includes(date)
+    ? await getNdjsonFromR2<T>(env, logArchiveKey(dataset, date))
+    : [];
+  const archivedIds = new Set(archived.map((log) => log.id));
+  const keys = partitions.entryDates.includes(date)
+    ? (await listKeysByPrefix(env, `${dataset.prefix}${date}/`)).filter(
+        (key) => !archivedIds.has(parseLogEntryKey(key).id),
+      )
+    : [];
+  const entries = (await getJsonBatch<T>(env, keys)).filter((log): log is T => log !== null);
+  return mergeLogs(archived, entries).sort(compareLogsAsc(dataset));
+}
+
+// 日付区切り導入前のログを読み出す単位
+const LEGACY_LOG_PAGE_SIZE = 100;
+
+// 期間内のログを新しい順に最大 limit 件返す（新しい日から順に読み、件数に達したら打ち切る）
+// 日付区切り導入前のログ（圧縮で日次ファイルに移すまでの間）は、日付区切りのログより古いものとして最後に読む
+async function listLogs<T extends { id: string }>(
+  env: WorkerEnv,
+  dataset: LogDataset<T>,
+  query: LogQuery,
+): Promise<T[]> {
+  const limit = query.limit ?? 100;
+  const partitions = await scanLogPartitions(env, dataset);
+  const logs: T[] = [];
+  for (const date of filterLogDates(partitions.dates, query).reverse()) {
+    if (logs.length >= limit) {
+      break;
+    }
+    logs.push(...(await loadNewestLogsOfDate(env, dataset, partitions, date, query, limit - logs.length)));
+  }
+  for (let index = 0; index < partitions.legacyKeys.length && logs.length < limit; index += LEGACY_LOG_PAGE_SIZE) {
+    const page = (await getJsonBatch<T>(env, partitions.legacyKeys.slice(index, index + LEGACY_LOG_PAGE_SIZE)))
+      .filter((log): log is T => log !== null && isLogWithinRange(dataset.timestamp(log), query))
+      .sort((a, b) => compareLogsAsc(dataset)(b, a));
+    logs.push(...page);
+  }
+  return logs.slice(0, limit);
+}
+
+// 期間に掛かる日のログを 1 日ずつ古い順に走査する（日の中は時刻順。日付区切り導入前のログは先頭にページ単位で返す）
+async function* iterateLogs<T extends { id: string }>(
+  env: WorkerEnv,
+  dataset: LogDataset<T>,
+  range: LogRange,
+): AsyncGenerator<T[]> {
+  const partitions = await scanLogPartitions(env, dataset);
+  for (let index = 0; index < partitions.legacyKeys.length; index += LEGACY_LOG_PAGE_SIZE) {
+    const page = (await getJsonBatch<T>(env, partitions.legacyKeys.slice(index, index + LEGACY_LOG_PAGE_SIZE)))
+      .filter((log): log is T => log !== null)
+      .sort(compareLogsAsc(dataset));
+    if (page.length) {
+      yield page;
+    }
+  }
+  for (const date of filterLogDates(partitions.dates, range)) {
+    const logs = await loadLogsOfDate(env, dataset, partitions, date);
+    if (logs.length) {
+      yield logs;
+    }
+  }
+}
+
+/**
+ * 検知ログを保存する。必要に応じて上位でUUIDを割り振ってから渡すこと。
+ */
+export async function saveDetectionLog(env: WorkerEnv, log: DetectionLog): Promise<void> {
+  await putJsonToR2(env, logEntryKey(LOG_DATASETS.detection, log), log);
+}
+
+/**
+ * 検知ログを `fetchedAt` の新しい順に返す（期間指定は該当する日のみ読む）。
+ */
+export async function listDetectionLogs(env: WorkerEnv, query: LogQuery = {}): Promise<DetectionLog[]> {
+  return listLogs(env, LOG_DATASETS.detection, query);
+}
+
+export async function saveNotificationLog(env: WorkerEnv, log: NotificationLog): Promise<void> {
+  await putJsonToR2(env, logEntryKey(LOG_DATASETS.notification, log), log);
+}
+
+/**
+ * 通知ログを `createdAt` の新しい順に返す（期間指定は該当する日のみ読む）。
+ */
+export async function listNotificationLogs(env: WorkerEnv, query: LogQuery = {}): Promise<NotificationLog[]> {
+  return listLogs(env, LOG_DATASETS.notification, query);
+}
+
+/**
+ * 検知ログを 1 日ずつ走査する（エクスポート用。期間に掛からない日は読まない）。
+ */
+export async function* iterateDetectionLogs(env: WorkerEnv, range: LogRange = {}): AsyncGenerator<DetectionLog[]> {
+  yield* iterateLogs(env, LOG_DATASETS.detection, range);
+}
+
+/**
+ * 通知ログを 1 日ずつ走査する（エクスポート用。期間に掛からない日は読まない）。
+ */
+export async function* iterateNotificationLogs(
+  env: WorkerEnv,
+  range: LogRange = {},
+): AsyncGenerator<NotificationLog[]> {
+  yield* iterateLogs(env, LOG_DATASETS.notification, range);
+}
+
+// 日次ファイルにログを追記する（ID で重複を除き、時刻順に並べ直す）
+async function appendToLogArchive<T extends { id: string }>(
+  env: WorkerEnv,
+  dataset: LogDataset<T>,
+  date: string,
+  logs: T[],
+): Promise<void> {
+  const key = logArchiveKey(dataset, date);
+  const merged = mergeLogs(await getNdjsonFromR2<T>(env, key), logs).sort(compareLogsAsc(dataset));
+  await putNdjsonToR2(env, key, merged);
+}
+
+// 1 種別分の圧縮・削除（上限に達したら残りは次回に回す）
+async function compactLogDataset<T extends { id: string }>(
+  env: WorkerEnv,
+  kind: LogKind,
+  dataset: LogDataset<T>,
+  options: LogCompactionOptions,
+): Promise<LogCompactionSummary> {
+  const summary: LogCompactionSummary = { kind, compactedDays: [], compactedEntries: 0, deletedDays: [], hasMore: false };
+  const partitions = await scanLogPartitions(env, dataset);
+  let remaining = options.maxEntries;
+
+  // 日付区切り導入前のログは読み出して日ごとの日次ファイルに振り分ける（保持期限を過ぎたものは捨てる）
+  const legacyKeys = partitions.legacyKeys.slice(0, remaining);
+  if (legacyKeys.length) {
+    const byDate = new Map<string, T[]>();
+    for (const log of await getJsonBatch<T>(env, legacyKeys)) {
+      const date = log ? logDate(dataset.timestamp(log)) : null;
+      if (log && date && !(options.deleteBefore && date < options.deleteBefore)) {
+        byDate.set(date, [...(byDate.get(date) ?? []), log]);
+      }
+    }
+    for (const [date, logs] of byDate) {
+      await appendToLogArchive(env, dataset, date, logs);
+    }
+    await env.R2.delete(legacyKeys);
+    summary.compactedEntries += legacyKeys.length;
+    remaining -= legacyKeys.length;
+  }
+  summary.hasMore = partitions.legacyKeys.length > legacyKeys.length;
+
+  // 日次ファイルを書いてから 1 件ずつのオブジェクトを消すため、途中で止まっても取りこぼさない
+  for (const date of partitions.entryDates) {
+    if (date >= options.compactBefore) {
+      break;
+    }
+    if (options.deleteBefore && date < options.deleteBefore) {
+      continue;
+    }
+    if (remaining <= 0) {
+      summary.hasMore = true;
+      break;
+    }
+    // 古い順に上限件数まで取り込む（読み出し中に書き込まれたログを消さないよう、一覧したキーのみ削除する）
+    const listing = await env.R2.list({ prefix: `${dataset.prefix}${date}/`, limit: remaining });
+    const keys = listing.objects.map((object) => object.key);
+    if (keys.length) {
+      const logs = (await getJsonBatch<T>(env, keys)).filter((log): log is T => log !== null);
+      await appendToLogArchive(env, dataset, date, logs);
+      await env.R2.delete(keys);
+      summary.compactedEntries += keys.length;
+      remaining -= keys.length;
+    }
+    if (listing.truncated) {
+      summary.hasMore = true;
+      break;
+    }
+    summary.compactedDays.push(date);
+  }
+
+  if (options.deleteBefore) {
+    for (const date of partitions.dates) {
+      if (date >= options.deleteBefore) {
+        break;
+      }
+      if (summary.deletedDays.length >= options.maxDeletedDays) {
+        summary.hasMore = true;
+        break;
+      }
+      if (partitions.entryDates.includes(date)) {
+        await deleteByPrefix(env, `${dataset.prefix}${date}/`);
+      }
+      if (partitions.archiveDates.includes(date)) {
+        await env.R2.delete(logArchiveKey(dataset, date));
+      }
+      summary.deletedDays.push(date);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * ログを圧縮し、保持期限を過ぎた日を削除する（1 回の処理量は `maxEntries` / `maxDeletedDays` まで）。
+ * - `compactBefore` より前の日の 1 件ずつのログを古い順に日次の NDJSON にまとめて削除する
+ *   （日次ファイルが既にあれば、圧縮後に遅れて書かれたログを追記する）
+ * - 日付区切り導入前のログも上限件数に含めて日次ファイルに移す
+ * - `deleteBefore` より前の日は日次ファイル・1 件ずつのログとも削除する
+ */
+export async function compactLogPartitions(
+  env: WorkerEnv,
+  kind: LogKind,
+  options: LogCompactionOptions,
+): Promise<LogCompactionSummary> {
+  return kind === 'detection'
+    ? compactLogDataset(env, kind, LOG_DATASETS.detection, options)
+    : compactLogDataset(env, kind, LOG_DATASETS.notification, options);
+}
+
+export async function getMetrics(env: WorkerEnv): Promise<RunMetrics | null> {
+  const metrics = await getJsonFromR2<RunMetrics>(env, METRICS_KEY);
+  if (metrics) {
+    return metrics;
+  }
+
+  if (env.SHIFT_CACHE) {
+    const kvMetrics = await env.SHIFT_CACHE.get<RunMetrics>('metrics:latest', 'json');
+    if (kvMetrics) {
+      await putJsonToR2(env, METRICS_KEY, kvMetrics);
+      return kvMetrics;
+    }
+  }
+
+  return null;
+}
+
+export async function saveMetrics(env: WorkerEnv, metrics: RunMetrics): Promise<void> {
+  const existing = await getMetrics(env);
+  if (existing && JSON.stringify(existing) === JSON.stringify(metrics)) {
+    return;
+  }
+  await putJsonToR2(env, METRICS_KEY, metrics);
+}
+
+// ISO文字列から日次ファイルのキーを組み立てる（YYYY-MM-DD 単位）
+function metricsHistoryKey(dateIso: string): string {
+  return `${METRICS_HISTORY_PREFIX}${dateIso.slice(0, 10)}.json`;
+}
+
+/**
+ * 実行メトリクスを日次ファイルに追記し、保持期間を過ぎた日次ファイルを削除する。
+ */
+export async function appendMetricsHistory(env: WorkerEnv, metrics: RunMetrics): Promise<void> {
+  const key = metricsHistoryKey(metrics.lastRunAt);
+  const entries = (await getJsonFromR2<RunMetrics[]>(env, key)) ?? [];
+  if (!entries.some((entry) => entry.runId === metrics.runId)) {
+    entries.push(metrics);
+    await putJsonToR2(env, key, entries);
+  }
+
+  const cutoff = new Date(Date.parse(metrics.lastRunAt) - METRICS_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const cutoffKey = metricsHistoryKey(cutoff.toISOString());
+  let cursor: string | undefined;
+  while (true) {
+    const listing = await env.R2.list({ prefix: METRICS_HISTORY_PREFIX, cursor });
+    const expired = listing.objects.filter((object) => object.key < cutoffKey);
+    if (expired.length) {
+      await Promise.all(expired.map((object) => env.R2.delete(object.key)));
+    }
+    if (!listing.truncated) {
+      break;
+    }
+    cursor = (listing as unknown as { cursor?: string }).cursor;
+    if (!cursor) {
+      break;
+    }
+  }
+}
+
+/**
+ * 指定期間 [sinceIso, untilIso] に実行されたメトリクスを古い順で返す。
+ */
+export async function listMetricsHistory(
+  env: WorkerEnv,
+  sinceIso: string,
+  untilIso: string,
+): Promise<RunMetrics[]> {
+  const firstKey = metricsHistoryKey(sinceIso);
+  const lastKey = metricsHistoryKey(untilIso);
+  const sinceMs = Date.parse(sinceIso);
+  const untilMs = Date.parse(untilIso);
+  const entries: RunMetrics[] = [];
+  let cursor: string | undefined;
+
+  while (true) {
+    const listing = await env.R2.list({ prefix: METRICS_HISTORY_PREFIX, cursor });
+    const targets = listing.objects.filter((object) => object.key >= firstKey && object.key <= lastKey);
+    if (targets.length) {
+      const loaded = await Promise.all(
+        targets.map((object) => getJsonFromR2<RunMetrics[]>(env, object.key)),
+      );
+      for (const dayEntries of loaded) {
+        entries.push(...(dayEntries ?? []));
+      }
+    }
+    if (!listing.truncated) {
+      break;
+    }
+    cursor = (listing as unknown as { cursor?: string }).cursor;
+    if (!cursor) {
+      break;
+    }
+  }
+
+  return entries
+    .filter((entry) => {
+      const runAt = Date.parse(entry.lastRunAt);
+      return runAt >= sinceMs && runAt <= untilMs;
+    })
+    .sort((a, b) => Date.parse(a.lastRunAt) - Date.parse(b.lastRunAt));
+}
+
+export async function getSourceTrust(env: WorkerEnv, source: SourceName): Promise<SourceTrustRecord | null> {
+  const record = await getJsonFromR2<SourceTrustRecord>(env, `${TRUST_PREFIX}${source}.json`);
+  if (record) {
+    return record;
+  }
+  if (env.SHIFT_CACHE) {
+    const kvRecord = await env.SHIFT_CACHE.get<SourceTrustRecord>(`${source}:trust`, 'json');
+    if (kvRecord) {
+      await putJsonToR2(env, `${TRUST_PREFIX}${source}.json`, kvRecord);
+      return kvRecord;
+    }
+  }
+  return null;
 }
 
 export async function setSourceTrust(
@@ -360,14 +1277,18 @@ export async function listSourceTrust(env: WorkerEnv): Promise<SourceTrustRecord
   return records.sort((a, b) => (a.source < b.source ? -1 : 1));
 }
 
-export async function getLastSourceFetchTimestamp(env: WorkerEnv, source: SourceName): Promise<string | null> {
-  const object = await env.R2.get(`${SOURCE_STATE_PREFIX}${source}.txt`);
+export async function getLastSourceFetchTimestamp(
+  env: WorkerEnv,
+  source: SourceName,
+  game: GameId = DEFAULT_GAME,
+): Promise<string | null> {
+  const object = await env.R2.get(sourceStateKey(SOURCE_STATE_PREFIX, source, game, 'txt'));
   if (object) {
     const text = await object.text();
     return text || null;
   }
 
-  if (env.SHIFT_CACHE) {
+  if (env.SHIFT_CACHE && game === DEFAULT_GAME) {
     const kvValue = await env.SHIFT_CACHE.get<string>(`${source}:last-run`);
     if (kvValue) {
       await setLastSourceFetchTimestamp(env, source, kvValue);
@@ -382,22 +1303,298 @@ export async function setLastSourceFetchTimestamp(
   env: WorkerEnv,
   source: SourceName,
   timestampIso: string,
+  game: GameId = DEFAULT_GAME,
 ): Promise<void> {
   // 最終取得時刻をテキストとして保存する。
-  await env.R2.put(`${SOURCE_STATE_PREFIX}${source}.txt`, timestampIso, {
+  await env.R2.put(sourceStateKey(SOURCE_STATE_PREFIX, source, game, 'txt'), timestampIso, {
+    httpMetadata: { contentType: 'text/plain' },
+  });
+}
+
+/**
+ * ソースが直近に掲載していた有効コード一覧（hash）を取得する。
+ */
+export async function getSourceListingSnapshot(
+  env: WorkerEnv,
+  source: SourceName,
+  game: GameId = DEFAULT_GAME,
+): Promise<SourceListingSnapshot | null> {
+  return getJsonFromR2<SourceListingSnapshot>(env, sourceStateKey(SOURCE_LISTING_PREFIX, source, game, 'json'));
+}
+
+export async function saveSourceListingSnapshot(env: WorkerEnv, snapshot: SourceListingSnapshot): Promise<void> {
+  await putJsonToR2(env, sourceStateKey(SOURCE_LISTING_PREFIX, snapshot.source, snapshot.game, 'json'), snapshot);
+}
+
+export async function getCircuitBreaker(
+  env: WorkerEnv,
+  source: SourceName,
+  game: GameId = DEFAULT_GAME,
+): Promise<CircuitBreakerRecord | null> {
+  return getJsonFromR2<CircuitBreakerRecord>(env, sourceStateKey(BREAKER_PREFIX, source, game, 'json'));
+}
+
+export async function saveCircuitBreaker(env: WorkerEnv, record: CircuitBreakerRecord): Promise<void> {
+  await putJsonToR2(env, sourceStateKey(BREAKER_PREFIX, record.source, record.game, 'json'), record);
+}
+
+/**
+ * 監視実行のリースと、条件付き書き込みに使う etag を読み込む。
+ */
+export async function getRunLease(env: WorkerEnv): Promise<{ lease: RunLease; etag: string } | null> {
+  const object = await env.R2.get(RUN_LEASE_KEY);
+  if (!object) {
+    return null;
+  }
+  const lease = await object.json<RunLease>();
+  return lease ? { lease, etag: object.etag } : null;
+}
+
+/**
+ * リースを条件付きで書き込む。etag を指定した場合はその版のまま残っているときだけ、
+ * null の場合はリースがまだ存在しないときだけ書き込む。
+ * 書き込めた場合は新しい etag、他の書き込みが先行して条件を満たさなかった場合は null を返す。
+ */
+export async function putRunLeaseIfMatch(env: WorkerEnv, lease: RunLease, etag: string | null): Promise<string | null> {
+  const written = await env.R2.put(RUN_LEASE_KEY, JSON.stringify(lease), {
+    httpMetadata: { contentType: 'application/json' },
+    onlyIf: etag ? { etagMatches: etag } : { etagDoesNotMatch: '*' },
+  });
+  return written ? written.etag : null;
+}
+
+export async function getSubscriber(env: WorkerEnv, id: string): Promise<Subscriber | null> {
+  return getJsonFromR2<Subscriber>(env, `${SUBSCRIBER_PREFIX}${id}.json`);
+}
+
+export async function saveSubscriber(env: WorkerEnv, subscriber: Subscriber): Promise<void> {
+  await putJsonToR2(env, `${SUBSCRIBER_PREFIX}${subscriber.id}.json`, subscriber);
+}
+
+export async function deleteSubscriber(env: WorkerEnv, id: string): Promise<void> {
+  await env.R2.delete(`${SUBSCRIBER_PREFIX}${id}.json`);
+}
+
+// 購読者一覧（作成日時の昇順）
+export async function listSubscribers(env: WorkerEnv): Promise<Subscriber[]> {
+  const subscribers: Subscriber[] = [];
+  let cursor: string | undefined;
+  while (true) {
+    const listing = await env.R2.list({ prefix: SUBSCRIBER_PREFIX, cursor });
+    for (const object of listing.objects) {
+      const subscriber = await getJsonFromR2<Subscriber>(env, object.key);
+      if (subscriber) {
+        subscribers.push(subscriber);
+      }
+    }
+    if (!listing.truncated) {
+      break;
+    }
+    cursor = (listing as unknown as { cursor?: string }).cursor;
+    if (!cursor) {
+      break;
+    }
+  }
+  return subscribers.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getSubmission(env: WorkerEnv, id: string): Promise<Submission | null> {
+  return getJsonFromR2<Submission>(env, `${SUBMISSION_PREFIX}${id}.json`);
+}
+
+// 状態別インデックスのキー（キー順が審査待ちは投稿順、審査済みは審査順になる）
+function submissionStatusIndexKey(submission: Submission): string {
+  const sortedAt = submission.status === 'PENDING' ? submission.submittedAt : submission.reviewedAt ?? submission.submittedAt;
+  return `${SUBMISSION_STATUS_INDEX_PREFIX}${submission.status}/${sortedAt}_${submission.id}`;
+}
+
+// 状態別インデックスを更新（変わった場合のみ書き換え、古いキーは削除）
+async function updateSubmissionStatusIndex(
+  env: WorkerEnv,
+  submission: Submission,
+  previous: Submission | null,
+): Promise<void> {
+  const key = submissionStatusIndexKey(submission);
+  const previousKey = previous ? submissionStatusIndexKey(previous) : null;
+  if (key === previousKey) {
+    return;
+  }
+  await env.R2.put(key, '', { httpMetadata: { contentType: 'text/plain' } });
+  if (previousKey) {
+    await env.R2.delete(previousKey);
+  }
+}
+
+// 状態別インデックスのバックフィルを一度だけ実行するためのフラグ。
+let submissionIndexMigrationAttempted = false;
+
+/**
+ * 状態別インデックス導入前に保存された投稿のインデックスを作成する（一度だけ）。
+ */
+async function migrateSubmissionIndexesIfNeeded(env: WorkerEnv): Promise<void> {
+  if (submissionIndexMigrationAttempted) {
+    return;
+  }
+  submissionIndexMigrationAttempted = true;
+
+  const marker = await env.R2.get(SUBMISSION_INDEX_MIGRATION_MARKER_KEY);
+  if (marker) {
+    return;
+  }
+
+  let indexed = 0;
+  for await (const page of iterateJsonByPrefix<Submission>(env, SUBMISSION_PREFIX)) {
+    for (const submission of page) {
+      await updateSubmissionStatusIndex(env, submission, null);
+      indexed++;
+    }
+  }
+
+  if (indexed) {
+    console.log(`Indexed ${indexed} submissions`);
+  }
+  await env.R2.put(SUBMISSION_INDEX_MIGRATION_MARKER_KEY, 'ok', {
     httpMetadata: { contentType: 'text/plain' },
   });
 }
 
+/**
+ * 投稿を保存し、審査待ち・接続元別・状態別のインデックスを合わせて更新する（審査済みになれば審査待ちのインデックスから外す）。
+ */
+export async function saveSubmission(env: WorkerEnv, submission: Submission): Promise<void> {
+  await migrateSubmissionIndexesIfNeeded(env);
+  const previous = await getSubmission(env, submission.id);
+  await putJsonToR2(env, `${SUBMISSION_PREFIX}${submission.id}.json`, submission);
+  const indexKey = `${PENDING_SUBMISSION_INDEX_PREFIX}${submission.candidate.hash}`;
+  if (submission.status === 'PENDING') {
+    await env.R2.put(indexKey, submission.id, { httpMetadata: { contentType: 'text/plain' } });
+  } else {
+    await env.R2.delete(indexKey);
+  }
+  if (submission.clientHash) {
+    const clientKey = `${SUBMISSION_CLIENT_INDEX_PREFIX}${submission.clientHash}/${submission.id}`;
+    if (submission.status === 'PENDING') {
+      await env.R2.put(clientKey, '', { httpMetadata: { contentType: 'text/plain' } });
+    } else {
+      await env.R2.delete(clientKey);
+    }
+  }
+  await updateSubmissionStatusIndex(env, submission, previous);
+}
+
+/**
+ * 同じコード（ハッシュ）の審査待ちの投稿を引き当てる。
+ */
+export async function getPendingSubmissionByHash(env: WorkerEnv, hash: string): Promise<Submission | null> {
+  const entry = await env.R2.get(`${PENDING_SUBMISSION_INDEX_PREFIX}${hash}`);
+  if (!entry) {
+    return null;
+  }
+  const submission = await getSubmission(env, (await entry.text()).trim());
+  return submission?.status === 'PENDING' ? submission : null;
+}
+
+/**
+ * 審査待ちの投稿の件数（インデックスのキー数のみで数える）。
+ */
+export async function countPendingSubmissions(env: WorkerEnv): Promise<number> {
+  return (await listKeysByPrefix(env, PENDING_SUBMISSION_INDEX_PREFIX)).length;
+}
+
+/**
+ * 同じ接続元からの審査待ちの投稿の件数。
+ */
+export async function countPendingSubmissionsByClient(env: WorkerEnv, clientHash: string): Promise<number> {
+  return (await listKeysByPrefix(env, `${SUBMISSION_CLIENT_INDEX_PREFIX}${clientHash}/`)).length;
+}
+
+/**
+ * 指定した状態の投稿を offset から最大 limit 件返す（審査待ちは投稿日時、審査済みは審査日時の古い順）。
+ * 状態別インデックスのキーで件数と並び順を決め、返す分の投稿のみ読み出す。
+ */
+export async function listSubmissions(
+  env: WorkerEnv,
+  status: SubmissionStatus,
+  offset: number,
+  limit: number,
+): Promise<{ submissions: Submission[]; total: number }> {
+  await migrateSubmissionIndexesIfNeeded(env);
+  const keys = await listKeysByPrefix(env, `${SUBMISSION_STATUS_INDEX_PREFIX}${status}/`);
+  const loaded = await getJsonBatch<Submission>(
+    env,
+    keys.slice(offset, offset + limit).map((key) => `${SUBMISSION_PREFIX}${key.slice(key.lastIndexOf('_') + 1)}.json`),
+  );
+  return {
+    submissions: loaded.filter((submission): submission is Submission => submission?.status === status),
+    total: keys.length,
+  };
+}
+
+// API キーはハッシュをキー名にして保存し、認証時に 1 回の取得で引けるようにする
+export async function getApiKeyByHash(env: WorkerEnv, hash: string): Promise<ApiKeyRecord | null> {
+  return getJsonFromR2<ApiKeyRecord>(env, `${API_KEY_PREFIX}${hash}.json`);
+}
+
+export async function saveApiKey(env: WorkerEnv, record: ApiKeyRecord): Promise<void> {
+  await putJsonToR2(env, `${API_KEY_PREFIX}${record.hash}.json`, record);
+}
+
+// API キー一覧（作成日時の昇順）
+export async function listApiKeys(env: WorkerEnv): Promise<ApiKeyRecord[]> {
+  const records: ApiKeyRecord[] = [];
+  let cursor: string | undefined;
+  while (true) {
+    const listing = await env.R2.list({ prefix: API_KEY_PREFIX, cursor });
+    for (const object of listing.objects) {
+      const record = await getJsonFromR2<ApiKeyRecord>(env, object.key);
+      if (record) {
+        records.push(record);
+      }
+    }
+    if (!listing.truncated) {
+      break;
+    }
+    cursor = (listing as unknown as { cursor?: string }).cursor;
+    if (!cursor) {
+      break;
+    }
+  }
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getDigestState(env: WorkerEnv, period: DigestPeriod): Promise<DigestState | null> {
+  return getJsonFromR2<DigestState>(env, `${DIGEST_PREFIX}${period}.json`);
+}
+
+export async function saveDigestState(env: WorkerEnv, state: DigestState): Promise<void> {
+  await putJsonToR2(env, `${DIGEST_PREFIX}${state.period}.json`, state);
+}
+
 /**
  * ストレージ全体を初期化するユーティリティ（テストやリセット用）。
  */
 export async function resetStorage(env: WorkerEnv): Promise<void> {
   await deleteByPrefix(env, CODE_PREFIX);
+  await deleteByPrefix(env, INDEX_PREFIX);
+  await deleteByPrefix(env, CHANGE_PREFIX);
   await deleteByPrefix(env, DETECTION_PREFIX);
   await deleteByPrefix(env, NOTIFICATION_PREFIX);
+  await deleteByPrefix(env, LOG_ARCHIVE_PREFIX);
+  await deleteByPrefix(env, SUBSCRIBER_PREFIX);
+  await deleteByPrefix(env, SUBMISSION_PREFIX);
   await deleteByPrefix(env, TRUST_PREFIX);
   await deleteByPrefix(env, SOURCE_STATE_PREFIX);
+  await deleteByPrefix(env, SOURCE_LISTING_PREFIX);
+  await deleteByPrefix(env, BREAKER_PREFIX);
+  await deleteByPrefix(env, DIGEST_PREFIX);
+  await deleteByPrefix(env, API_KEY_PREFIX);
+  await deleteByPrefix(env, METRICS_HISTORY_PREFIX);
   await env.R2.delete(METRICS_KEY);
+  await env.R2.delete(RUN_LEASE_KEY);
+  await env.R2.delete(CODE_COUNT_KEY);
   await env.R2.delete(MIGRATION_MARKER_KEY);
+  await env.R2.delete(GAME_MIGRATION_MARKER_KEY);
+  await env.R2.delete(REWARD_MIGRATION_MARKER_KEY);
+  await env.R2.delete(INDEX_MIGRATION_MARKER_KEY);
+  await env.R2.delete(SUBMISSION_INDEX_MIGRATION_MARKER_KEY);
 }
\ No newline at end of file
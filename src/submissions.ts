@@ -0,0 +1,276 @@
+/**
+ * submissions.ts
+ *
+ * 利用者からのコード投稿と審査キュー（POST /submissions と審査用ルート）。
+ * - 投稿は認証なしで受け付け、収集時と同じ正規化を通したコードを Hold の候補として審査キューに積む
+ * - 候補は承認されるまで保存済みコードに含めない（一覧・フィード・通知には出さない）
+ * - 既存のコード・審査待ちの投稿とはハッシュで重複を判定する
+ * - 同じ接続元（IP）からの審査待ちは `SUBMISSION_PENDING_PER_CLIENT` 件までとし、重複判定や件数の集計より先に断る
+ * - 承認すると Active として保存・通知し、投稿者を `metadata.discoveredBy` に記録する
+ */
+import { z } from 'zod';
+import type { WorkerEnv } from './env';
+import type { ChangeActor, GameId, ShiftCode, Submission, SubmissionStatus } from './models';
+import { DEFAULT_GAME, GAME_IDS, games } from './games';
+import {
+  CodeValidationError,
+  DuplicateCodeError,
+  PLATFORM_SCOPES,
+  dateSchema,
+  httpUrlSchema,
+  parseInput,
+  upperEnum,
+} from './manual';
+import { draftToShiftCode } from './sources';
+import {
+  countPendingSubmissions,
+  countPendingSubmissionsByClient,
+  getCodeByHash,
+  getPendingSubmissionByHash,
+  saveCode,
+  saveSubmission,
+} from './storage';
+import { notifyCodeIfNeeded } from './monitor';
+import { applyStatusTransition, hashCode, parseNumber, toIsoString } from './utils';
+
+// 審査待ちの投稿の既定の上限件数
+const DEFAULT_QUEUE_LIMIT = 500;
+// 同じ接続元からの審査待ちの投稿の既定の上限件数
+const DEFAULT_PENDING_PER_CLIENT = 3;
+
+/**
+ * 投稿の審査状態の一覧。
+ */
+export const SUBMISSION_STATUSES: SubmissionStatus[] = ['PENDING', 'APPROVED', 'REJECTED'];
+
+/**
+ * 同じコードの投稿が審査待ちの場合のエラー（API では 409 として返す）。
+ */
+export class DuplicateSubmissionError extends Error {
+  constructor(public readonly pending: Submission) {
+    super(`Code already submitted: ${pending.id}`);
+    this.name = 'DuplicateSubmissionError';
+  }
+}
+
+/**
+ * 審査待ちの投稿が上限に達している場合のエラー（API では 503 として返す）。
+ */
+export class SubmissionQueueFullError extends Error {
+  constructor() {
+    super('Submission queue is full');
+    this.name = 'SubmissionQueueFullError';
+  }
+}
+
+/**
+ * 同じ接続元からの審査待ちの投稿が上限に達している場合のエラー（API では 429 として返す）。
+ */
+export class SubmissionClientLimitError extends Error {
+  constructor(public readonly limit: number) {
+    super(`Too many pending submissions from this client (limit ${limit})`);
+    this.name = 'SubmissionClientLimitError';
+  }
+}
+
+/**
+ * 承認しようとした投稿のコードが論理削除済みの場合のエラー（API では 409 として返す。復元は POST /codes/:id/restore）。
+ */
+export class SubmissionCodeDeletedError extends Error {
+  constructor(public readonly code: ShiftCode) {
+    super(`Code was deleted: ${code.id}`);
+    this.name = 'SubmissionCodeDeletedError';
+  }
+}
+
+/**
+ * 審査済みの投稿を再度審査しようとした場合のエラー（API では 409 として返す）。
+ */
+export class SubmissionAlreadyReviewedError extends Error {
+  constructor(public readonly submission: Submission) {
+    super(`Submission already ${submission.status.toLowerCase()}`);
+    this.name = 'SubmissionAlreadyReviewedError';
+  }
+}
+
+// 投稿の入力（コードのほかは任意）
+const submissionSchema = z
+  .object({
+    code: z.string().trim().min(1).max(100),
+    game: upperEnum(GAME_IDS as [GameId, ...GameId[]]).optional(),
+    rewardType: z.string().trim().max(200).optional(),
+    platforms: z.array(upperEnum(PLATFORM_SCOPES)).max(PLATFORM_SCOPES.length).optional(),
+    expiresAt: dateSchema.optional(),
+    url: httpUrlSchema.optional(),
+    notes: z.string().trim().min(1).max(500).optional(),
+    submittedBy: z.string().trim().min(1).max(100).optional(),
+  })
+  .strict();
+
+// 却下の入力
+const rejectSchema = z
+  .object({
+    reason: z.string().trim().min(1).max(500).optional(),
+  })
+  .strict();
+
+/**
+ * 投稿を審査キューに積む。
+ * - 既存のコード（論理削除済みを含む）と同じなら `DuplicateCodeError`、審査待ちの投稿と同じなら `DuplicateSubmissionError`
+ * - 審査待ちが `SUBMISSION_QUEUE_LIMIT`（既定 500）件に達していれば `SubmissionQueueFullError`
+ * - client（接続元 IP）からの審査待ちが `SUBMISSION_PENDING_PER_CLIENT`（既定 3、0 で無制限）件に達していれば
+ *   `SubmissionClientLimitError`（R2 の読み出しは接続元のインデックスの一覧のみ）
+ */
+export async function submitCode(
+  env: WorkerEnv,
+  input: unknown,
+  now = new Date(),
+  client: string | null = null,
+): Promise<Submission> {
+  const body = parseInput(submissionSchema, input);
+  const game = body.game ?? DEFAULT_GAME;
+  const candidate = await draftToShiftCode(
+    null,
+    {
+      code: body.code,
+      rewardType: body.rewardType,
+      platforms: body.platforms,
+      expiresAt: body.expiresAt,
+      status: 'Hold',
+      url: body.url,
+      notes: body.notes,
+    },
+    now,
+    game,
+  );
+  if (!candidate) {
+    throw new CodeValidationError(`code: Invalid ${games[game].name} code format`);
+  }
+
+  const clientLimit = Math.max(0, Math.floor(parseNumber(env.SUBMISSION_PENDING_PER_CLIENT, DEFAULT_PENDING_PER_CLIENT)));
+  const clientHash = client && clientLimit > 0 ? await hashCode(client) : null;
+  if (clientHash && (await countPendingSubmissionsByClient(env, clientHash)) >= clientLimit) {
+    throw new SubmissionClientLimitError(clientLimit);
+  }
+
+  const existing = await getCodeByHash(env, candidate.hash);
+  if (existing) {
+    throw new DuplicateCodeError(existing);
+  }
+  const pending = await getPendingSubmissionByHash(env, candidate.hash);
+  if (pending) {
+    throw new DuplicateSubmissionError(pending);
+  }
+  if ((await countPendingSubmissions(env)) >= parseNumber(env.SUBMISSION_QUEUE_LIMIT, DEFAULT_QUEUE_LIMIT)) {
+    throw new SubmissionQueueFullError();
+  }
+
+  if (body.submittedBy) {
+    candidate.metadata = { ...candidate.metadata, discoveredBy: body.submittedBy };
+  }
+  const submission: Submission = {
+    id: crypto.randomUUID(),
+    status: 'PENDING',
+    candidate,
+    ...(body.submittedBy ? { submittedBy: body.submittedBy } : {}),
+    ...(clientHash ? { clientHash } : {}),
+    submittedAt: toIsoString(now),
+  };
+  await saveSubmission(env, submission);
+  return submission;
+}
+
+/**
+ * 投稿を承認する。
+ * - 候補を Active にして保存し、監視実行と同じ条件で通知する（statusHistory は `SUBMISSION_APPROVED`）
+ * - 審査中に同じコードが収集・登録済みになっていれば新規には保存せず、発見者が未記録なら投稿者を記録する
+ * - 同じコードが論理削除済みなら `SubmissionCodeDeletedError`（投稿は審査待ちのまま。復元してから承認する）
+ */
+export async function approveSubmission(
+  env: WorkerEnv,
+  submission: Submission,
+  actor: ChangeActor,
+  now = new Date(),
+): Promise<{ submission: Submission; code: ShiftCode }> {
+  if (submission.status !== 'PENDING') {
+    throw new SubmissionAlreadyReviewedError(submission);
+  }
+  const nowIso = toIsoString(now);
+  // 投稿者の記録（承認したコードの metadata に載せる）
+  const credit = {
+    submissionId: submission.id,
+    ...(submission.submittedBy ? { discoveredBy: submission.submittedBy } : {}),
+  };
+
+  let code = await getCodeByHash(env, submission.candidate.hash);
+  if (code?.deletedAt) {
+    throw new SubmissionCodeDeletedError(code);
+  }
+  if (code) {
+    if (!code.metadata?.discoveredBy && submission.submittedBy) {
+      code = { ...code, updatedAt: nowIso, metadata: { ...code.metadata, ...credit } };
+      await saveCode(env, code, actor);
+    }
+  } else {
+    code = applyStatusTransition(
+      {
+        ...submission.candidate,
+        updatedAt: nowIso,
+        metadata: { ...submission.candidate.metadata, ...credit },
+      },
+      'Active',
+      'SUBMISSION_APPROVED',
+      nowIso,
+    );
+    await saveCode(env, code, actor);
+    code = await notifyCodeIfNeeded(env, code, actor, now);
+  }
+
+  const approved: Submission = {
+    ...submission,
+    status: 'APPROVED',
+    reviewedAt: nowIso,
+    ...(actor.id ? { reviewedBy: actor.id } : {}),
+    codeId: code.id,
+  };
+  await saveSubmission(env, approved);
+  return { submission: approved, code };
+}
+
+/**
+ * 投稿を却下する（理由は任意）。
+ */
+export async function rejectSubmission(
+  env: WorkerEnv,
+  submission: Submission,
+  input: unknown,
+  actor: ChangeActor,
+  now = new Date(),
+): Promise<Submission> {
+  if (submission.status !== 'PENDING') {
+    throw new SubmissionAlreadyReviewedError(submission);
+  }
+  const body = parseInput(rejectSchema, input ?? {});
+  const rejected: Submission = {
+    ...submission,
+    status: 'REJECTED',
+    reviewedAt: toIsoString(now),
+    ...(actor.id ? { reviewedBy: actor.id } : {}),
+    ...(body.reason ? { rejectReason: body.reason } : {}),
+  };
+  await saveSubmission(env, rejected);
+  return rejected;
+}
+
+/**
+ * 投稿者向けの受付結果（審査キューの中身や他の投稿は返さない）。
+ */
+export function toPublicSubmission(submission: Submission) {
+  return {
+    id: submission.id,
+    status: submission.status,
+    game: submission.candidate.title,
+    code: submission.candidate.normalizedCodeText,
+    submittedAt: submission.submittedAt,
+  };
+}
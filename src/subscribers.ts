@@ -0,0 +1,240 @@
+/**
+ * subscribers.ts
+ *
+ * 通知の購読者（コミュニティサーバーごとの Webhook と通知条件）。
+ * - 購読者は R2（`subscribers/`）に保存し、API から作成・更新・削除する
+ * - 送信先は URL だけで完結する Webhook 系（Discord / Slack / 汎用 JSON）に限る
+ * - 通知時は条件に一致したコードだけを各購読者へ個別に送る
+ */
+import type {
+  GameId,
+  NotificationDestination,
+  Platform,
+  ShiftCode,
+  SourceName,
+  Subscriber,
+  SubscriberFilters,
+} from './models';
+import { GAME_IDS, isGameId } from './games';
+import { PLATFORMS, isPlatform, matchesPlatforms } from './platforms';
+import { matchesRewardFilter } from './rewards';
+import { toIsoString } from './utils';
+
+/**
+ * 購読者に指定できる送信先。
+ */
+export const SUBSCRIBER_DESTINATIONS: NotificationDestination[] = [
+  'DISCORD_WEBHOOK',
+  'SLACK_WEBHOOK',
+  'GENERIC_WEBHOOK',
+];
+
+const SOURCE_NAMES: SourceName[] = ['OFFICIAL_SITE', 'OFFICIAL_X', 'MEDIA_TRUSTED', 'COMMUNITY_AUX'];
+
+/**
+ * 購読者の入力値が不正な場合のエラー（API では 400 として返す）。
+ */
+export class SubscriberValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriberValidationError';
+  }
+}
+
+/**
+ * 作成・更新リクエストの入力。
+ */
+export interface SubscriberInput {
+  name?: unknown;
+  destination?: unknown;
+  url?: unknown;
+  enabled?: unknown;
+  filters?: {
+    games?: unknown;
+    platforms?: unknown;
+    rewardTypes?: unknown;
+    minConfidence?: unknown;
+    sources?: unknown;
+    includeHold?: unknown;
+  };
+}
+
+// 文字列配列として解釈（空要素は除去、空配列は未指定扱い）
+function parseStringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new SubscriberValidationError(`${field} must be an array of strings`);
+  }
+  const items = (value as string[]).map((item) => item.trim()).filter((item) => item.length > 0);
+  return items.length ? items : undefined;
+}
+
+// 通知条件を検証して組み立て（既存値に上書きマージ）
+function parseFilters(input: SubscriberInput['filters'], current?: SubscriberFilters): SubscriberFilters {
+  const filters: SubscriberFilters = { ...(current ?? { includeHold: false }) };
+  if (!input) {
+    return filters;
+  }
+  if (typeof input !== 'object') {
+    throw new SubscriberValidationError('filters must be an object');
+  }
+
+  if ('games' in input) {
+    const values = parseStringList(input.games, 'filters.games')?.map((value) => value.toUpperCase());
+    const invalid = values?.filter((value) => !isGameId(value)) ?? [];
+    if (invalid.length) {
+      throw new SubscriberValidationError(`Invalid games: ${invalid.join(', ')} (expected ${GAME_IDS.join(', ')})`);
+    }
+    filters.games = values as GameId[] | undefined;
+  }
+  if ('platforms' in input) {
+    const values = parseStringList(input.platforms, 'filters.platforms')?.map((value) => value.toUpperCase());
+    const invalid = values?.filter((value) => !isPlatform(value)) ?? [];
+    if (invalid.length) {
+      throw new SubscriberValidationError(
+        `Invalid platforms: ${invalid.join(', ')} (expected ${PLATFORMS.join(', ')})`,
+      );
+    }
+    filters.platforms = values as Platform[] | undefined;
+  }
+  if ('rewardTypes' in input) {
+    filters.rewardTypes = parseStringList(input.rewardTypes, 'filters.rewardTypes');
+  }
+  if ('sources' in input) {
+    const sources = parseStringList(input.sources, 'filters.sources');
+    const invalid = sources?.filter((source) => !SOURCE_NAMES.includes(source as SourceName)) ?? [];
+    if (invalid.length) {
+      throw new SubscriberValidationError(`Invalid sources: ${invalid.join(', ')}`);
+    }
+    filters.sources = sources as SourceName[] | undefined;
+  }
+  if ('minConfidence' in input) {
+    const value = input.minConfidence;
+    if (value === null || value === undefined) {
+      filters.minConfidence = undefined;
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+      throw new SubscriberValidationError('filters.minConfidence must be a number between 0 and 1');
+    } else {
+      filters.minConfidence = value;
+    }
+  }
+  if ('includeHold' in input) {
+    if (typeof input.includeHold !== 'boolean') {
+      throw new SubscriberValidationError('filters.includeHold must be a boolean');
+    }
+    filters.includeHold = input.includeHold;
+  }
+  return filters;
+}
+
+// 送信先 URL の検証（https のみ許可）
+function parseUrl(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new SubscriberValidationError('url is required');
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(value.trim());
+  } catch {
+    throw new SubscriberValidationError('url must be a valid URL');
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new SubscriberValidationError('url must use https');
+  }
+  return parsed.toString();
+}
+
+/**
+ * 入力値から購読者を作成・更新する。
+ * - current 未指定（新規作成）では name / destination / url が必須
+ * - current 指定時は入力に含まれる項目のみ上書き
+ */
+export function buildSubscriber(input: SubscriberInput, now: Date, current?: Subscriber): Subscriber {
+  if (!input || typeof input !== 'object') {
+    throw new SubscriberValidationError('Invalid JSON body');
+  }
+  const nowIso = toIsoString(now);
+
+  let name = current?.name;
+  if (!current || 'name' in input) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new SubscriberValidationError('name is required');
+    }
+    name = input.name.trim();
+  }
+
+  let destination = current?.destination;
+  if (!current || 'destination' in input) {
+    if (!SUBSCRIBER_DESTINATIONS.includes(input.destination as NotificationDestination)) {
+      throw new SubscriberValidationError(`destination must be one of: ${SUBSCRIBER_DESTINATIONS.join(', ')}`);
+    }
+    destination = input.destination as NotificationDestination;
+  }
+
+  const url = !current || 'url' in input ? parseUrl(input.url) : current.url;
+
+  let enabled = current?.enabled ?? true;
+  if ('enabled' in input) {
+    if (typeof input.enabled !== 'boolean') {
+      throw new SubscriberValidationError('enabled must be a boolean');
+    }
+    enabled = input.enabled;
+  }
+
+  return {
+    id: current?.id ?? crypto.randomUUID(),
+    name: name as string,
+    destination: destination as NotificationDestination,
+    url,
+    filters: parseFilters(input.filters, current?.filters),
+    enabled,
+    createdAt: current?.createdAt ?? nowIso,
+    updatedAt: nowIso,
+  };
+}
+
+/**
+ * API レスポンス用に送信先 URL を伏せた購読者を返す（Webhook URL は秘匿情報のため）。
+ */
+export function toPublicSubscriber(subscriber: Subscriber): Subscriber {
+  let masked = '***';
+  try {
+    const parsed = new URL(subscriber.url);
+    masked = `${parsed.origin}/***${subscriber.url.slice(-4)}`;
+  } catch {
+    // 保存時に検証済みのため通常は到達しない
+  }
+  return { ...subscriber, url: masked };
+}
+
+/**
+ * コードが購読者の通知条件に一致するか。
+ * - Expired は対象外、Hold は includeHold の購読者のみ
+ */
+export function matchesSubscriber(subscriber: Subscriber, code: ShiftCode): boolean {
+  const { filters } = subscriber;
+  if (!subscriber.enabled) {
+    return false;
+  }
+  if (code.status === 'Expired' || (code.status === 'Hold' && !filters.includeHold)) {
+    return false;
+  }
+  if (filters.games?.length && !filters.games.includes(code.title)) {
+    return false;
+  }
+  if (filters.platforms?.length && !matchesPlatforms(code.platforms, filters.platforms)) {
+    return false;
+  }
+  if (filters.minConfidence !== undefined && (code.confidence ?? 0) < filters.minConfidence) {
+    return false;
+  }
+  if (filters.sources?.length && !code.sources.some((source) => filters.sources?.includes(source))) {
+    return false;
+  }
+  if (filters.rewardTypes?.length && !matchesRewardFilter(code, filters.rewardTypes)) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,84 @@
+/**
+ * sweeper.ts
+ *
+ * 保存済みコードの期限切れを判定し、状態を `Expired` に遷移させる掃除処理。
+ * - expiresAt を過ぎたコードは EXPIRES_AT_PASSED として Expired に
+ * - ソースの有効コード一覧（PC Gamer の表など）から消えたコードは
+ *   REMOVED_FROM_SOURCE_LISTING として Expired と推定
+ * - 遷移は statusHistory に時刻と理由付きで記録
+ */
+import type { WorkerEnv } from './env';
+import type { ShiftCode, SourceListingSnapshot, SourceName, StatusTransitionReason } from './models';
+import { DEFAULT_GAME, resolveEnabledGames } from './games';
+import { getSourceListingSnapshot, listCodesByStatus, saveCode } from './storage';
+import { applyStatusTransition, toIsoString } from './utils';
+
+// 有効コード一覧を持つソース
+const LISTING_SOURCES: SourceName[] = ['MEDIA_TRUSTED'];
+
+/**
+ * 掃除処理の結果サマリ。
+ */
+export interface ExpirySweepResult {
+  sweptAt: string;
+  checked: number;
+  expired: Array<{ codeId: string; codeText: string; reason: StatusTransitionReason }>;
+}
+
+// 一覧から消えたと判断できるか（一覧取得より前から同じタイトル・同じソースで検出済みのコードに限る）
+function isMissingFromListing(code: ShiftCode, snapshot: SourceListingSnapshot): boolean {
+  if (code.title !== (snapshot.game ?? DEFAULT_GAME) || !code.sources.includes(snapshot.source)) {
+    return false;
+  }
+  if (Date.parse(code.firstSeenAt) >= Date.parse(snapshot.fetchedAt)) {
+    return false;
+  }
+  return !snapshot.hashes.includes(code.hash);
+}
+
+// 期限切れの理由を判定（該当しなければ null）
+function resolveExpiryReason(
+  code: ShiftCode,
+  snapshots: SourceListingSnapshot[],
+  now: Date,
+): StatusTransitionReason | null {
+  if (code.expiresAt) {
+    const expiresAt = Date.parse(code.expiresAt);
+    if (!Number.isNaN(expiresAt) && expiresAt <= now.getTime()) {
+      return 'EXPIRES_AT_PASSED';
+    }
+  }
+  if (snapshots.some((snapshot) => isMissingFromListing(code, snapshot))) {
+    return 'REMOVED_FROM_SOURCE_LISTING';
+  }
+  return null;
+}
+
+/**
+ * Active/Hold のコードを走査し、期限切れと判定したものを Expired に遷移させて保存する。
+ */
+export async function sweepExpiredCodes(env: WorkerEnv, now = new Date()): Promise<ExpirySweepResult> {
+  const sweptAt = toIsoString(now);
+  const snapshots = (
+    await Promise.all(
+      resolveEnabledGames(env).flatMap((game) =>
+        LISTING_SOURCES.map((source) => getSourceListingSnapshot(env, source, game)),
+      ),
+    )
+  ).filter((snapshot): snapshot is SourceListingSnapshot => Boolean(snapshot));
+
+  const candidates = [...(await listCodesByStatus(env, 'Active')), ...(await listCodesByStatus(env, 'Hold'))];
+  const result: ExpirySweepResult = { sweptAt, checked: candidates.length, expired: [] };
+
+  for (const code of candidates) {
+    const reason = resolveExpiryReason(code, snapshots, now);
+    if (!reason) {
+      continue;
+    }
+    await saveCode(env, applyStatusTransition(code, 'Expired', reason, sweptAt), { type: 'SWEEPER' });
+    result.expired.push({ codeId: code.id, codeText: code.codeText, reason });
+    console.log(`Expired code ${code.id} (${code.codeText}): ${reason}`);
+  }
+
+  return result;
+}
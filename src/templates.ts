@@ -0,0 +1,440 @@
+/**
+ * templates.ts
+ *
+ * 通知メッセージのテンプレートとメッセージカタログ（ja / en）。
+ * - 送信先ごとにロケール・タイムゾーン・日付書式を切り替えられる
+ * - タイトル・本文・フッター・色・項目順は環境変数 `NOTIFICATION_TEMPLATES`（JSON）で上書き可能
+ * - ダイジェスト（複数コードのまとめ）も同じカタログ・テンプレートで組み立てる
+ *
+ * `NOTIFICATION_TEMPLATES` の例:
+ * {
+ *   "default": { "locale": "ja", "timeZone": "Asia/Tokyo" },
+ *   "DISCORD_WEBHOOK": { "title": "新しいコード", "color": "#ff0000", "fieldOrder": ["reward", "expires"] }
+ * }
+ */
+import type { WorkerEnv } from './env';
+import type {
+  CodeStatus,
+  DigestKind,
+  DigestSectionKey,
+  NotificationDestination,
+  NotificationDigest,
+  RewardKind,
+  ShiftCode,
+} from './models';
+import { gameName } from './games';
+import { PLATFORM_LABELS } from './platforms';
+
+/**
+ * 対応ロケール。
+ */
+export type NotificationLocale = 'ja' | 'en';
+
+/**
+ * 通知本文に載せる項目のキー。
+ */
+export type TemplateFieldKey =
+  | 'game'
+  | 'sources'
+  | 'status'
+  | 'firstSeen'
+  | 'expires'
+  | 'reward'
+  | 'platforms'
+  | 'confidence'
+  | 'sourceUrl';
+
+/**
+ * 解決済みのテンプレート設定。
+ */
+export interface NotificationTemplate {
+  locale: NotificationLocale;
+  timeZone: string;
+  dateFormat: string;
+  title?: string;
+  content?: string;
+  footer?: string;
+  color?: number;
+  fieldOrder?: TemplateFieldKey[];
+}
+
+/**
+ * テンプレートを適用して組み立てたメッセージ。各チャネルはこれを自分の形式に整形する。
+ */
+export interface RenderedMessage {
+  codeId: string;
+  content: string;
+  title: string;
+  footer: string;
+  color: number;
+  codeLabel: string;
+  codeValue: string;
+  fields: Array<{ key: TemplateFieldKey; label: string; value: string }>;
+  notes?: string;
+}
+
+/**
+ * ダイジェストの 1 セクション（見出しとコードごとのメッセージ）。
+ */
+export interface RenderedDigestSection {
+  key: DigestSectionKey;
+  heading: string;
+  emptyText: string;
+  items: RenderedMessage[];
+}
+
+/**
+ * テンプレートを適用して組み立てたダイジェスト。
+ */
+export interface RenderedDigest {
+  content: string;
+  title: string;
+  footer: string;
+  color: number;
+  sections: RenderedDigestSection[];
+}
+
+/**
+ * メッセージカタログ 1 言語分。
+ */
+interface MessageCatalog {
+  content: string;
+  title: string;
+  footer: string;
+  unknown: string;
+  allPlatforms: string;
+  code: string;
+  fields: Record<TemplateFieldKey, string>;
+  statuses: Record<CodeStatus, string>;
+  rewardKinds: Record<Exclude<RewardKind, 'Other' | 'Unknown'>, string>;
+  digest: {
+    content: string;
+    titles: Record<DigestKind, string>;
+    sections: Record<DigestSectionKey, string>;
+    empty: string;
+  };
+}
+
+const MESSAGE_CATALOGS: Record<NotificationLocale, MessageCatalog> = {
+  en: {
+    content: '🚨 Borderlands SHiFT code update!',
+    title: 'New SHiFT Code discovered',
+    footer: 'Borderlands SHiFT Monitor',
+    unknown: 'Unknown',
+    allPlatforms: 'All platforms',
+    code: 'Code',
+    fields: {
+      game: 'Game',
+      sources: 'Sources',
+      status: 'Status',
+      firstSeen: 'First seen',
+      expires: 'Expires',
+      reward: 'Reward',
+      platforms: 'Platforms',
+      confidence: 'Confidence',
+      sourceUrl: 'Source URL',
+    },
+    statuses: {
+      Active: 'Active',
+      Expired: 'Expired',
+      Hold: 'Hold',
+    },
+    rewardKinds: {
+      GoldenKey: 'Golden Key',
+      DiamondKey: 'Diamond Key',
+      SkeletonKey: 'Skeleton Key',
+      VaultCard: 'Vault Card',
+      Weapon: 'Weapon',
+      Cosmetic: 'Cosmetic',
+    },
+    digest: {
+      content: '🚨 Borderlands SHiFT code digest',
+      titles: {
+        RUN: 'SHiFT code digest',
+        DAILY: 'Daily SHiFT code summary',
+        WEEKLY: 'Weekly SHiFT code summary',
+      },
+      sections: {
+        new: 'New codes',
+        activated: 'Became active',
+        expired: 'Expired',
+      },
+      empty: 'None',
+    },
+  },
+  ja: {
+    content: '🚨 Borderlands シリーズの SHiFT コード更新です！',
+    title: '新しい SHiFT コードを検出しました',
+    footer: 'Borderlands SHiFT モニター',
+    unknown: '不明',
+    allPlatforms: '全プラットフォーム',
+    code: 'コード',
+    fields: {
+      game: 'タイトル',
+      sources: '検出元',
+      status: '状態',
+      firstSeen: '初出',
+      expires: '有効期限',
+      reward: '報酬',
+      platforms: '対象プラットフォーム',
+      confidence: '確度',
+      sourceUrl: '参照URL',
+    },
+    statuses: {
+      Active: '有効',
+      Expired: '期限切れ',
+      Hold: '保留',
+    },
+    rewardKinds: {
+      GoldenKey: 'ゴールデンキー',
+      DiamondKey: 'ダイヤモンドキー',
+      SkeletonKey: 'スケルトンキー',
+      VaultCard: 'ボルトカード',
+      Weapon: '武器',
+      Cosmetic: 'コスメティック',
+    },
+    digest: {
+      content: '🚨 Borderlands シリーズの SHiFT コードまとめ',
+      titles: {
+        RUN: 'SHiFT コードまとめ',
+        DAILY: 'SHiFT コード日次サマリ',
+        WEEKLY: 'SHiFT コード週次サマリ',
+      },
+      sections: {
+        new: '新しいコード',
+        activated: '有効になったコード',
+        expired: '期限切れになったコード',
+      },
+      empty: 'なし',
+    },
+  },
+};
+
+const DEFAULT_FIELD_ORDER: TemplateFieldKey[] = [
+  'game',
+  'sources',
+  'status',
+  'firstSeen',
+  'expires',
+  'reward',
+  'platforms',
+  'confidence',
+  'sourceUrl',
+];
+
+const DEFAULT_TEMPLATE: NotificationTemplate = {
+  locale: 'en',
+  timeZone: 'UTC',
+  dateFormat: 'yyyy-MM-dd (z)',
+};
+
+const DEFAULT_COLOR = 0xffc43d;
+
+// "#rrggbb" / 数値 / 数値文字列を色コードに変換（不正なら undefined）
+function parseColor(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const hex = value.trim().replace(/^#/, '');
+    if (/^[0-9a-f]{6}$/i.test(hex)) {
+      return parseInt(hex, 16);
+    }
+  }
+  return undefined;
+}
+
+// 有効なタイムゾーン名か（Intl で解決できるか）
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// JSON の 1 エントリをテンプレートの部分設定に変換（不正な値は無視）
+function sanitizeOverride(raw: unknown): Partial<NotificationTemplate> {
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+  const record = raw as Record<string, unknown>;
+  const override: Partial<NotificationTemplate> = {};
+  if (record.locale === 'ja' || record.locale === 'en') {
+    override.locale = record.locale;
+  }
+  if (typeof record.timeZone === 'string' && isValidTimeZone(record.timeZone)) {
+    override.timeZone = record.timeZone;
+  }
+  for (const key of ['dateFormat', 'title', 'content', 'footer'] as const) {
+    if (typeof record[key] === 'string') {
+      override[key] = record[key] as string;
+    }
+  }
+  const color = parseColor(record.color);
+  if (color !== undefined) {
+    override.color = color;
+  }
+  if (Array.isArray(record.fieldOrder)) {
+    override.fieldOrder = record.fieldOrder.filter((key): key is TemplateFieldKey =>
+      typeof key === 'string' && (DEFAULT_FIELD_ORDER as string[]).includes(key),
+    );
+  }
+  return override;
+}
+
+// `NOTIFICATION_TEMPLATES` を読み込み（未設定・不正なら null）
+function loadTemplateOverrides(env: WorkerEnv): Record<string, unknown> | null {
+  if (!env.NOTIFICATION_TEMPLATES) {
+    return null;
+  }
+  try {
+    return JSON.parse(env.NOTIFICATION_TEMPLATES) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('Failed to parse NOTIFICATION_TEMPLATES, using defaults', error);
+    return null;
+  }
+}
+
+/**
+ * 送信先に適用するテンプレートを解決する。
+ * 既定値 < `NOTIFICATION_TEMPLATES.default` < `NOTIFICATION_TEMPLATES[destination]` の順に上書き。
+ * destination 未指定時（フィード等）は `default` までを適用する。
+ */
+export function resolveTemplate(env: WorkerEnv, destination?: NotificationDestination): NotificationTemplate {
+  const decoded = loadTemplateOverrides(env);
+  if (!decoded) {
+    return { ...DEFAULT_TEMPLATE };
+  }
+  return {
+    ...DEFAULT_TEMPLATE,
+    ...sanitizeOverride(decoded.default),
+    ...(destination ? sanitizeOverride(decoded[destination]) : {}),
+  };
+}
+
+/**
+ * ISO 文字列を指定タイムゾーン・書式で整形する。
+ * 書式トークン: yyyy, MM, dd, HH, mm, ss, z（タイムゾーン表記）
+ */
+export function formatDateInZone(
+  value: string | null | undefined,
+  timeZone: string,
+  format: string,
+): string | null {
+  if (!value) {
+    return null;
+  }
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    return null;
+  }
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).formatToParts(new Date(timestamp));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((entry) => entry.type === type)?.value ?? '';
+  const tokens: Record<string, string> = {
+    yyyy: part('year'),
+    MM: part('month'),
+    dd: part('day'),
+    HH: part('hour'),
+    mm: part('minute'),
+    ss: part('second'),
+    z: timeZone === 'UTC' ? 'UTC' : part('timeZoneName'),
+  };
+  return format.replace(/yyyy|MM|dd|HH|mm|ss|z/g, (token) => tokens[token]);
+}
+
+/**
+ * 報酬をテンプレートのロケールで表示する（種別名 × 数量。Other は元の表記、Unknown は null）。
+ */
+export function renderReward(code: ShiftCode, template: NotificationTemplate): string | null {
+  const { kind, quantity } = code.reward;
+  if (kind === 'Unknown') {
+    return null;
+  }
+  if (kind === 'Other') {
+    return code.rewardType || null;
+  }
+  const label = MESSAGE_CATALOGS[template.locale].rewardKinds[kind];
+  return quantity ? `${label} ×${quantity}` : label;
+}
+
+/**
+ * コード 1 件分のメッセージをテンプレートに従って組み立てる。
+ */
+export function renderCodeMessage(code: ShiftCode, template: NotificationTemplate): RenderedMessage {
+  const catalog = MESSAGE_CATALOGS[template.locale];
+  const formatDate = (value: string | null | undefined) =>
+    formatDateInZone(value, template.timeZone, template.dateFormat);
+
+  const values: Record<TemplateFieldKey, string | null> = {
+    game: gameName(code.title),
+    sources: code.sources.join(', '),
+    status: catalog.statuses[code.status] ?? code.status,
+    firstSeen: formatDate(code.firstSeenAt) ?? code.firstSeenAt,
+    expires: formatDate(code.expiresAt) ?? catalog.unknown,
+    reward: renderReward(code, template),
+    platforms: code.platforms?.length
+      ? code.platforms
+          .map((platform) => (platform === 'UNIVERSAL' ? catalog.allPlatforms : PLATFORM_LABELS[platform]))
+          .join(', ')
+      : null,
+    confidence: typeof code.confidence === 'number' ? `${Math.round(code.confidence * 100)}%` : null,
+    sourceUrl: code.metadata?.url ?? null,
+  };
+
+  const order = template.fieldOrder && template.fieldOrder.length ? template.fieldOrder : DEFAULT_FIELD_ORDER;
+  const fields = order
+    .filter((key) => values[key] !== null)
+    .map((key) => ({ key, label: catalog.fields[key], value: values[key] as string }));
+
+  return {
+    codeId: code.id,
+    content: template.content ?? catalog.content,
+    title: template.title ?? catalog.title,
+    footer: template.footer ?? catalog.footer,
+    color: template.color ?? DEFAULT_COLOR,
+    codeLabel: catalog.code,
+    codeValue: code.codeText ?? code.normalizedCodeText ?? catalog.unknown,
+    fields,
+    notes: code.metadata?.notes,
+  };
+}
+
+/**
+ * ダイジェストをテンプレートに従って組み立てる。
+ * - タイトル・本文の上書きはコード単位の通知にのみ適用し、ダイジェストはカタログの文言を使う
+ * - 定期サマリは対象期間をタイトルに併記する
+ */
+export function renderDigestMessage(digest: NotificationDigest, template: NotificationTemplate): RenderedDigest {
+  const catalog = MESSAGE_CATALOGS[template.locale];
+  let title = catalog.digest.titles[digest.kind];
+  const periodStart = formatDateInZone(digest.periodStart, template.timeZone, template.dateFormat);
+  const periodEnd = formatDateInZone(digest.periodEnd, template.timeZone, template.dateFormat);
+  if (periodStart && periodEnd) {
+    title = `${title} (${periodStart} – ${periodEnd})`;
+  }
+
+  return {
+    content: catalog.digest.content,
+    title,
+    footer: template.footer ?? catalog.footer,
+    color: template.color ?? DEFAULT_COLOR,
+    sections: digest.sections.map((section) => ({
+      key: section.key,
+      heading: `${catalog.digest.sections[section.key]} (${section.codes.length})`,
+      emptyText: catalog.digest.empty,
+      items: section.codes.map((code) => renderCodeMessage(code, template)),
+    })),
+  };
+}
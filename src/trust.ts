@@ -0,0 +1,154 @@
+/**
+ * trust.ts
+ *
+ * ソース信頼度（`SourceTrustRecord`）からコードの確度（confidence）を算出し、
+ * 状態遷移（Hold→Active の昇格、低信頼ソースのみのコードの保留化）を適用します。
+ * - 確度は報告元ソースの信頼度を独立事象として合成: 1 - Π(1 - score)
+ * - 信頼度が未設定のソースは既定値を用いる
+ * - Hold→Active の自動昇格は低信頼を理由に保留したコードに限り、運用者やソースが Hold にしたコードは変更しない
+ */
+import type { WorkerEnv } from './env';
+import type { ChangeActor, ShiftCode, SourceName } from './models';
+import { listCodesByStatuses, listSourceTrust, saveCode } from './storage';
+import { applyStatusTransition, clamp, parseNumber } from './utils';
+
+/**
+ * ソースごとの信頼度（0〜1）。
+ */
+export type TrustScores = Record<SourceName, number>;
+
+/**
+ * 昇格・保留化の閾値。
+ * - promoteThreshold: 確度がこれ以上なら Hold→Active
+ * - lowTrustThreshold: 全報告元の信頼度がこれ未満なら低信頼扱い
+ */
+export interface TrustPolicy {
+  promoteThreshold: number;
+  lowTrustThreshold: number;
+}
+
+// 信頼度レコード未設定時の既定値
+export const DEFAULT_TRUST_SCORES: TrustScores = {
+  OFFICIAL_SITE: 0.95,
+  OFFICIAL_X: 0.9,
+  MEDIA_TRUSTED: 0.7,
+  COMMUNITY_AUX: 0.3,
+};
+
+const DEFAULT_PROMOTE_THRESHOLD = 0.7;
+const DEFAULT_LOW_TRUST_THRESHOLD = 0.4;
+
+/**
+ * R2 の信頼度レコードを読み込み、未設定のソースは既定値で補完する。
+ */
+export async function loadTrustScores(env: WorkerEnv): Promise<TrustScores> {
+  const scores: TrustScores = { ...DEFAULT_TRUST_SCORES };
+  const records = await listSourceTrust(env);
+  for (const record of records) {
+    if (record.source in scores && Number.isFinite(record.score)) {
+      scores[record.source] = clamp(record.score, 0, 1);
+    }
+  }
+  return scores;
+}
+
+/**
+ * 環境変数 `TRUST_PROMOTE_THRESHOLD` / `TRUST_LOW_THRESHOLD` から閾値を解決する。
+ */
+export function resolveTrustPolicy(env: WorkerEnv): TrustPolicy {
+  return {
+    promoteThreshold: clamp(parseNumber(env.TRUST_PROMOTE_THRESHOLD, DEFAULT_PROMOTE_THRESHOLD), 0, 1),
+    lowTrustThreshold: clamp(parseNumber(env.TRUST_LOW_THRESHOLD, DEFAULT_LOW_TRUST_THRESHOLD), 0, 1),
+  };
+}
+
+/**
+ * 報告元ソースの信頼度からコードの確度（0〜1、小数第 4 位まで）を算出する。
+ */
+export function computeConfidence(sources: SourceName[], scores: TrustScores): number {
+  if (!sources.length) {
+    return 0;
+  }
+  const unique = Array.from(new Set(sources));
+  const disbelief = unique.reduce((product, source) => product * (1 - (scores[source] ?? 0)), 1);
+  return Math.round((1 - disbelief) * 10000) / 10000;
+}
+
+/**
+ * Hold が低信頼による保留か。
+ * 直近の遷移が記録されていればその理由で判定し、記録がなければ（遷移履歴の導入前の保留）`metadata.lowTrust` で判定する。
+ * 運用者による Hold（`MANUAL_UPDATE`）や、ソースが Hold として報告したコードは対象外。
+ */
+function isLowTrustHold(code: ShiftCode): boolean {
+  const last = code.statusHistory?.[code.statusHistory.length - 1];
+  if (last?.to === 'Hold') {
+    return last.reason === 'LOW_TRUST_ONLY';
+  }
+  return code.metadata?.lowTrust === true;
+}
+
+/**
+ * 確度を算出してレコードに反映し、必要に応じて状態を遷移させる。
+ * - 低信頼による Hold かつ確度が昇格閾値以上 → Active
+ * - Active かつ全報告元が低信頼 → Hold（metadata.lowTrust を付与）
+ * - Expired は状態を変更しない
+ */
+export function applyTrustPolicy(
+  code: ShiftCode,
+  scores: TrustScores,
+  policy: TrustPolicy,
+  nowIso: string,
+): ShiftCode {
+  const confidence = computeConfidence(code.sources, scores);
+  const lowTrust =
+    code.sources.length > 0 && code.sources.every((source) => (scores[source] ?? 0) < policy.lowTrustThreshold);
+
+  let transitioned = code;
+  if (code.status === 'Hold' && isLowTrustHold(code) && !lowTrust && confidence >= policy.promoteThreshold) {
+    transitioned = applyStatusTransition(code, 'Active', 'TRUST_PROMOTED', nowIso);
+  } else if (code.status === 'Active' && lowTrust) {
+    transitioned = applyStatusTransition(code, 'Hold', 'LOW_TRUST_ONLY', nowIso);
+  }
+
+  const { lowTrust: _previous, ...restMetadata } = code.metadata ?? {};
+  const metadata = lowTrust ? { ...restMetadata, lowTrust: true } : restMetadata;
+
+  const updated: ShiftCode = { ...transitioned, confidence };
+  if (Object.keys(metadata).length) {
+    updated.metadata = metadata;
+  } else {
+    delete updated.metadata;
+  }
+  return updated;
+}
+
+/**
+ * 信頼度の更新時に、指定ソースが報告した Active / Hold のコードへ確度と低信頼の判定を反映する。
+ * 監視処理は今回報告のあったコードのみを再評価するため、報告のないコードへの反映はここで行う。
+ * 反映したコードの件数と、Hold→Active に昇格したコード（通知は呼び出し側で行う）を返す。
+ */
+export async function rescoreCodesForSource(
+  env: WorkerEnv,
+  source: SourceName,
+  nowIso: string,
+  actor: ChangeActor,
+): Promise<{ rescored: number; promoted: ShiftCode[] }> {
+  const scores = await loadTrustScores(env);
+  const policy = resolveTrustPolicy(env);
+  const result = { rescored: 0, promoted: [] as ShiftCode[] };
+  for (const code of await listCodesByStatuses(env, ['Active', 'Hold'])) {
+    if (!code.sources.includes(source)) {
+      continue;
+    }
+    const updated = applyTrustPolicy(code, scores, policy, nowIso);
+    if (JSON.stringify(updated) === JSON.stringify(code)) {
+      continue;
+    }
+    await saveCode(env, updated, actor);
+    result.rescored++;
+    if (code.status === 'Hold' && updated.status === 'Active') {
+      result.promoted.push(updated);
+    }
+  }
+  return result;
+}
@@ -1,7 +1,7 @@
 ﻿/**
  * 共通で使うユーティリティ関数群。
  */
-import type { SourceName } from './models';
+import type { CodeStatus, ShiftCode, SourceName, StatusTransitionReason } from './models';
 
 /**
  * SHiFTコードの入力を英数字だけの大文字に整える。
@@ -72,6 +72,51 @@ export function ensureUnique<T>(values: T[]): T[] {
  */
 export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
+/**
+ * コードの状態を遷移させ、遷移理由と時刻を statusHistory に追記した新しいレコードを返す。
+ * 状態が変わらない場合はそのまま返す。
+ */
+export function applyStatusTransition(
+  code: ShiftCode,
+  to: CodeStatus,
+  reason: StatusTransitionReason,
+  atIso: string,
+): ShiftCode {
+  if (code.status === to) {
+    return code;
+  }
+  return {
+    ...code,
+    status: to,
+    updatedAt: atIso,
+    statusHistory: [...(code.statusHistory ?? []), { from: code.status, to, at: atIso, reason }],
+  };
+}
+
+/**
+ * Retry-After ヘッダを秒数に解釈。
+ * - 数値型（秒）/ 日付型（HTTP-date）の両方を扱う
+ * - 最小1秒、最大3600秒にクリップ
+ */
+export function parseRetryAfter(header: string | null): number {
+  if (!header) {
+    return 1;
+  }
+
+  const numeric = Number(header);
+  if (!Number.isNaN(numeric) && numeric >= 0) {
+    return Math.max(1, Math.min(3600, Math.ceil(numeric)));
+  }
+
+  const dateValue = Date.parse(header);
+  if (!Number.isNaN(dateValue)) {
+    const diffSeconds = Math.ceil((dateValue - Date.now()) / 1000);
+    return Math.max(1, Math.min(3600, diffSeconds));
+  }
+
+  return 1;
+}
+
 /**
  * 値を[min, max]の範囲に収める。
  */